@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Run the TypeScript CLI through tsx so it shares src/ with the web app
+import { register } from 'tsx/esm/api'
+
+register()
+await import('../scripts/cli.ts')
@@ -0,0 +1,147 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { createCanvas, loadImage, type Image } from '@napi-rs/canvas'
+import { collectionFileBase, planCollection, type CollectionItem } from '../src/collection'
+import { cachedLoader, composePFP } from '../src/compositor'
+import { LAYER_ORDER, type LayerId } from '../src/layers'
+import { buildMetadata, pfpFileBase } from '../src/metadata'
+import { createRng, generateSeed } from '../src/random'
+import type { PartialTraits } from '../src/rules'
+import { computeRarity, selectTraits } from '../src/traits'
+import { scanTraitManifest } from './traitManifest'
+
+// Headless version of the generator: same layers, rules and compositing as the
+// web app, drawn with @napi-rs/canvas and written straight to disk
+
+const USAGE = `Usage: lolcatpfp [options]
+
+Options:
+  -s, --seed <seed>      Seed for a single PFP, or the base seed of a collection
+  -n, --count <n>        Number of PFPs to generate (default 1). More than one
+                         makes a collection where every PFP has unique traits
+  -z, --size <px>        Output size in pixels (default 800)
+  -l, --lock <lock>      Lock a layer, e.g. z4=z4_head_002.png, z1=none or
+                         backgrounds=gradient. Can be repeated
+  -o, --out <dir>        Output folder (default ./lolcat-out)
+      --pfp-dir <dir>    Trait art folder (default ./public/pfp)
+  -h, --help             Show this help`
+
+const DEFAULT_SIZE = 800
+
+class CliError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliError'
+  }
+}
+
+function parsePositiveInt(value: string, option: string): number {
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 1) {
+    throw new CliError(`--${option} must be a positive whole number, got "${value}"`)
+  }
+  return number
+}
+
+// "<layer>=<file>" where file can also be "none" (and "gradient"/"solid" for backgrounds)
+function parseLocks(values: string[], availableFiles: Record<string, string[]>): PartialTraits {
+  const locks: PartialTraits = {}
+
+  for (const value of values) {
+    const [layer, trait] = value.split('=', 2)
+    if (!trait || !LAYER_ORDER.includes(layer as LayerId)) {
+      throw new CliError(`Invalid lock "${value}" - expected <layer>=<file> with layer one of ${LAYER_ORDER.join(', ')}`)
+    }
+
+    const layerId = layer as LayerId
+    if (trait === 'none') {
+      locks[layerId] = null
+    } else if (layerId === 'backgrounds' && (trait === 'gradient' || trait === 'solid')) {
+      locks[layerId] = trait
+    } else if (availableFiles[layerId].includes(trait)) {
+      locks[layerId] = trait
+    } else {
+      throw new CliError(`Unknown trait "${trait}" for layer ${layerId}`)
+    }
+  }
+
+  return locks
+}
+
+// The single PFP mode mirrors generatePFP in the app, so a seed gives the same
+// picture here as it does in the browser
+function planSingle(seed: string, availableFiles: Record<string, string[]>, locked: PartialTraits): CollectionItem {
+  const selection = selectTraits(createRng(seed), availableFiles, { locked })
+  const rarity = computeRarity(selection.traits, availableFiles)
+  return {
+    number: 1,
+    seed,
+    selection,
+    rarity,
+    metadata: buildMetadata({ seed, selection, rarity }),
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      seed: { type: 'string', short: 's' },
+      count: { type: 'string', short: 'n', default: '1' },
+      size: { type: 'string', short: 'z', default: String(DEFAULT_SIZE) },
+      lock: { type: 'string', short: 'l', multiple: true, default: [] },
+      out: { type: 'string', short: 'o', default: 'lolcat-out' },
+      'pfp-dir': { type: 'string', default: path.join('public', 'pfp') },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+
+  const count = parsePositiveInt(values.count, 'count')
+  const size = parsePositiveInt(values.size, 'size')
+  const pfpDir = path.resolve(values['pfp-dir'])
+  const outDir = path.resolve(values.out)
+
+  const manifest = scanTraitManifest(pfpDir)
+  const availableFiles: Record<string, string[]> = Object.fromEntries(
+    LAYER_ORDER.map(layer => [layer, (manifest[layer] ?? []).map(trait => trait.file)])
+  )
+  if (LAYER_ORDER.every(layer => availableFiles[layer].length === 0)) {
+    throw new CliError(`No trait art found in ${pfpDir}`)
+  }
+
+  const locked = parseLocks(values.lock, availableFiles)
+  const seed = values.seed || generateSeed()
+
+  const items = count === 1
+    ? [planSingle(seed, availableFiles, locked)]
+    : planCollection(count, seed, availableFiles, locked)
+  const fileBase = (item: CollectionItem) => count === 1
+    ? pfpFileBase(item.seed)
+    : collectionFileBase(item.number, count)
+
+  fs.mkdirSync(outDir, { recursive: true })
+
+  const canvas = createCanvas(size, size)
+  const ctx = canvas.getContext('2d')
+  const load = cachedLoader<Image>((layer, file) => loadImage(path.join(pfpDir, layer, file)))
+
+  for (const item of items) {
+    await composePFP(ctx, item.selection, size, load)
+    const name = fileBase(item)
+    fs.writeFileSync(path.join(outDir, `${name}.png`), await canvas.encode('png'))
+    fs.writeFileSync(path.join(outDir, `${name}.json`), JSON.stringify(item.metadata, null, 2) + '\n')
+    console.log(`🐱 ${name}.png  seed ${item.seed}  rarity ${item.metadata.rarity.score}`)
+  }
+
+  console.log(`✅ ${items.length} PFP${items.length === 1 ? '' : 's'} written to ${outDir}`)
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`)
+  process.exitCode = 1
+})
@@ -0,0 +1,103 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { Plugin } from 'vite'
+import { LAYER_ORDER } from '../src/layers'
+import type { TraitFile, TraitManifest } from '../src/traitManifest'
+
+const VIRTUAL_ID = 'virtual:trait-manifest'
+const RESOLVED_VIRTUAL_ID = '\0' + VIRTUAL_ID
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+// Read width/height from the IHDR chunk of a PNG without decoding it
+export function readPngSize(filePath: string): { width: number, height: number } | null {
+  const header = Buffer.alloc(24)
+  const fd = fs.openSync(filePath, 'r')
+  try {
+    if (fs.readSync(fd, header, 0, header.length, 0) < header.length) return null
+  } finally {
+    fs.closeSync(fd)
+  }
+
+  if (!PNG_SIGNATURE.every((byte, i) => header[i] === byte)) return null
+  if (header.toString('ascii', 12, 16) !== 'IHDR') return null
+
+  return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) }
+}
+
+// Scan public/pfp/<layer>/ folders and list every PNG trait with its dimensions
+export function scanTraitManifest(pfpDir: string): TraitManifest {
+  const manifest: TraitManifest = {}
+  const layers = fs.existsSync(pfpDir)
+    ? fs.readdirSync(pfpDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort()
+    : []
+
+  for (const layer of layers) {
+    const layerDir = path.join(pfpDir, layer)
+    const files = fs.readdirSync(layerDir)
+      .filter(file => file.toLowerCase().endsWith('.png'))
+      .sort()
+
+    const traits: TraitFile[] = []
+    for (const file of files) {
+      const size = readPngSize(path.join(layerDir, file))
+      if (!size) {
+        console.warn(`⚠️ Skipping ${layer}/${file}: not a valid PNG`)
+        continue
+      }
+      traits.push({ file, ...size })
+    }
+    manifest[layer] = traits
+  }
+
+  // Backgrounds can be generated, every other layer needs art
+  for (const layer of LAYER_ORDER) {
+    if (layer !== 'backgrounds' && !manifest[layer]?.length) {
+      console.warn(`⚠️ No files found for layer: ${layer}`)
+    }
+  }
+
+  return manifest
+}
+
+// Vite plugin exposing the scanned manifest as `virtual:trait-manifest`.
+// In dev the manifest is rebuilt whenever art is added, removed or replaced.
+export default function traitManifest(): Plugin {
+  let pfpDir = ''
+
+  return {
+    name: 'trait-manifest',
+
+    configResolved(config) {
+      pfpDir = path.join(config.publicDir || path.join(config.root, 'public'), 'pfp')
+    },
+
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_VIRTUAL_ID
+    },
+
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_ID) return
+      this.addWatchFile(pfpDir)
+      return `export default ${JSON.stringify(scanTraitManifest(pfpDir), null, 2)}\n`
+    },
+
+    configureServer(server) {
+      server.watcher.add(pfpDir)
+
+      const refresh = (file: string) => {
+        if (!path.resolve(file).startsWith(pfpDir)) return
+        const mod = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_ID)
+        if (mod) server.moduleGraph.invalidateModule(mod)
+        server.ws.send({ type: 'full-reload' })
+      }
+
+      server.watcher.on('add', refresh)
+      server.watcher.on('unlink', refresh)
+      server.watcher.on('change', refresh)
+    },
+  }
+}
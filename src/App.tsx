@@ -1,42 +1,412 @@
-import { useState, useRef, useEffect, Suspense } from 'react'
-import { Canvas, useFrame, useThree } from '@react-three/fiber'
+import { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo, Suspense } from 'react'
+import { Canvas, useFrame, useThree, type RootState, type ThreeEvent } from '@react-three/fiber'
 import { Environment, Box } from '@react-three/drei'
 import { EffectComposer, Bloom, ToneMapping, BrightnessContrast, Pixelation } from '@react-three/postprocessing'
 import * as THREE from 'three'
 import ParticleFrame from './ParticleFrame'
+import FloatingParticles from './FloatingParticles'
+import {
+  DEFAULT_FRAME_PRESET,
+  PARTICLE_FRAME_PRESETS,
+  framePresetConfig,
+  isFramePresetId,
+  type ParticleFrameConfig,
+  type ParticleFramePresetId,
+} from './frameConfig'
+import { createRng, generateSeed } from './random'
+import { LAYER_ORDER, type LayerId } from './layers'
+import type { LayerImage } from './compositor'
+import { compositorPool } from './compositorPool'
+import { textureManager } from './textureManager'
+import { renderCardBack } from './cardBack'
+import { DEFAULT_THEME, imagePalette, themeFromPalette, type SceneTheme } from './palette'
+import {
+  cardAnimationReducer,
+  cardPose,
+  crossfadeAmount,
+  initialCardState,
+  textureOpacity,
+  type CardAnimationEvent,
+} from './cardAnimation'
+import {
+  cardControlsReducer,
+  controlsRotation,
+  initialControlsState,
+  type CardControlsEvent,
+} from './cardControls'
+import {
+  DEFAULT_TRANSITION,
+  TRANSITIONS,
+  createTransitionMaterial,
+  isTransitionChoice,
+  resolveTransition,
+  setTransitionState,
+  type TransitionChoice,
+  type TransitionId,
+} from './transitions'
+import {
+  FINISHES,
+  applyFinish,
+  finishFrameColor,
+  isFinishChoice,
+  resolveFinish,
+  type FinishChoice,
+  type FinishId,
+} from './finishes'
+import { computeRarity, selectTraits, type GeneratedTraits, type RarityReport } from './traits'
+import type { CSSBackground } from './background'
+import type { PartialTraits } from './rules'
+import TraitPanel from './TraitPanel'
+import HistoryGallery from './HistoryGallery'
+import BatchPanel from './BatchPanel'
+import ExportPanel from './ExportPanel'
+import CapturePanel from './CapturePanel'
+import RendererStats, { RendererStatsProbe, type RendererStatsSample } from './RendererStats'
+import {
+  createHistoryId,
+  deleteHistoryEntry,
+  loadHistory,
+  saveHistoryEntry,
+  type HistoryEntry,
+} from './history'
+import { buildMetadata, metadataToBlob, pfpFileBase } from './metadata'
+import { createZip } from './zip'
+import { downloadBlob } from './download'
+import LookEffects from './LookEffects'
+import LookPanel from './LookPanel'
+import PixelArtPanel from './PixelArtPanel'
+import { DEFAULT_PIXEL_ART, bakePixelArt, type PixelArtSettings } from './pixelArt'
+import type { LookSettings } from './looks'
+import { loadPreferences, savePreferences } from './preferences'
+import { readShareLink, shareLinkUrl } from './shareLink'
+import { CLIP_FPS, SPIN_CLIP_LEAD_IN, type CaptureTarget, type ClipKind, type ClipScript } from './sceneCapture'
+import traitManifest from 'virtual:trait-manifest'
 import './App.css'
 
-// We'll use opacity-based crossfading with meshPhysicalMaterial instead of custom shaders
-
-// Base configuration for layer metadata
-const LAYER_CONFIG = {
-  backgrounds: { name: 'Backgrounds' },
-  z0: { name: 'Base Cat' }, // mandatory
-  z1: { name: 'Hands' },
-  z2: { name: 'Paws' }, // mandatory
-  z3: { name: 'Eyes' },
-  z4: { name: 'Head Accessories' },
-  z5: { name: 'Whiskers' }, // mandatory
+// Size of the composited PFP image in pixels
+const PFP_SIZE = 800
+
+// Show the GPU resource readout with ?debug in the URL
+const DEBUG = new URLSearchParams(window.location.search).has('debug')
+
+// Trait files per layer, taken from the build-time manifest of public/pfp
+const availableFiles: Record<string, string[]> = Object.fromEntries(
+  LAYER_ORDER.map(layer => [layer, (traitManifest[layer] ?? []).map(trait => trait.file)])
+)
+
+// PFP and look of the link the app was opened with, if any
+const SHARED = readShareLink(window.location.search, availableFiles)
+
+// A PFP as handed to the card: the flat image and the card's back, plus each layer
+// on its own for the exploded card (null until those have been rendered)
+interface CardFace {
+  image: Blob
+  back: Blob
+  selection: GeneratedTraits
+  layers: LayerImage[] | null
+}
+
+// GPU side of a CardFace, with the scene theme taken from its colors
+interface FaceTextures {
+  flat: THREE.Texture
+  back: THREE.Texture
+  layers: { layer: LayerId, texture: THREE.Texture }[] | null
+  theme: SceneTheme
+}
+
+interface CardTextures {
+  current: FaceTextures | null
+  next: FaceTextures | null
+  queued: FaceTextures | null
+}
+
+// A composited PFP, ready to go on the card
+interface DrawnPFP {
+  seed: string
+  lockedTraits: PartialTraits
+  rarity: RarityReport
+  face: CardFace
+}
+
+// How captures steer the live scene. Kept in a ref, since the card reads it
+// every frame and captures change it between frames.
+interface CaptureDirector {
+  // The pointer is left out while a capture runs
+  capturing: boolean
+  // Extra turn of the card, set by turntable captures
+  turntable: number
+  // Face about to go on the card, with its textures loaded ahead of time
+  prepared: { face: CardFace, textures: FaceTextures } | null
+  // Set by the card while it's mounted
+  card: {
+    // Let go of any drag or flip and rest on the side that's showing
+    settle: () => void
+    // Resolves once the card renders every texture its state machine holds
+    rendered: () => Promise<void>
+  } | null
+  // Sampling of the newest PFP silhouette for the floating particles
+  silhouette: Promise<void> | null
+}
+
+// Theme colors as the scene shows them right now, blended between PFPs along
+// with the crossfade
+type LiveTheme = Record<keyof SceneTheme, THREE.Color>
+
+const THEME_KEYS = Object.keys(DEFAULT_THEME) as (keyof SceneTheme)[]
+
+// Colors the theme is taken from per PFP
+const THEME_PALETTE_SIZE = 8
+
+// Which particle systems run around the card
+const PARTICLE_MODES = [
+  { id: 'both', label: 'Frame + Forcefield' },
+  { id: 'frame', label: 'Frame' },
+  { id: 'forcefield', label: 'Forcefield' },
+  { id: 'off', label: 'Off' },
+] as const
+
+type ParticleMode = typeof PARTICLE_MODES[number]['id']
+
+function isParticleMode(value: string): value is ParticleMode {
+  return PARTICLE_MODES.some(mode => mode.id === value)
+}
+
+// Size of the card back texture, big enough to keep its small print legible
+const CARD_BACK_SIZE = 1024
+// Size of each layer image of the exploded card, smaller to keep GPU memory down
+const LAYER_IMAGE_SIZE = 512
+// Depth of the first layer plane (just in front of the card body) and between planes
+const LAYER_BASE_Z = 0.09
+const LAYER_SPACING = 0.12
+// How far the resting card tilts toward the pointer, in radians
+const POINTER_TILT = 0.25
+// A press that moves less than this many pixels is a tap, two within DOUBLE_TAP_MS flip the card
+const TAP_SLOP = 6
+const DOUBLE_TAP_MS = 300
+
+function faceTextureList(face: FaceTextures | null): THREE.Texture[] {
+  if (!face) return []
+  return [face.flat, face.back, ...(face.layers ?? []).map(({ texture }) => texture)]
+}
+
+async function loadFaceTextures({ image, back, layers }: CardFace): Promise<FaceTextures> {
+  // A PFP whose colors can't be read just keeps the default look
+  const theme = imagePalette(image, THEME_PALETTE_SIZE).then(themeFromPalette, () => DEFAULT_THEME)
+  const results = await Promise.allSettled(
+    [image, back, ...(layers ?? []).map(layer => layer.image)].map(blob => textureManager.fromBlob(blob))
+  )
+  const loaded = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (failure) {
+    loaded.forEach(texture => textureManager.release(texture))
+    throw failure.reason
+  }
+
+  const [flat, backTexture, ...layerTextures] = loaded
+  return {
+    flat,
+    back: backTexture,
+    layers: layers?.map(({ layer }, index) => ({ layer, texture: layerTextures[index] })) ?? null,
+    theme: await theme,
+  }
+}
+
+// Composite and encode in a worker so the spin keeps its frame rate. The back of
+// the card is drawn from the front, so both turn up together.
+async function drawPFP(
+  seed: string,
+  selection: GeneratedTraits,
+  lockedTraits: PartialTraits,
+  withLayers: boolean
+): Promise<DrawnPFP> {
+  const rarity = computeRarity(selection.traits, availableFiles)
+  const [image, layers] = await Promise.all([
+    compositorPool.compose(selection, PFP_SIZE),
+    withLayers ? compositorPool.composeLayers(selection, LAYER_IMAGE_SIZE) : null,
+  ])
+  const back = await renderCardBack({ seed, rarity, image }, CARD_BACK_SIZE)
+  return { seed, lockedTraits, rarity, face: { image, back, selection, layers } }
+}
+
+// One layer of the exploded card, in the same finish as the card's face
+function LayerPlane({ texture, z, finish }: { texture: THREE.Texture, z: number, finish: FinishId }) {
+  const material = useMemo(() => new THREE.MeshPhysicalMaterial({
+    map: texture,
+    side: THREE.DoubleSide,
+    emissive: 'white',
+    emissiveMap: texture,
+    emissiveIntensity: 0.5,
+    transparent: true,
+    depthWrite: false,
+  }), [texture])
+
+  useEffect(() => {
+    applyFinish(material, finish, 'face')
+  }, [material, finish])
+
+  useEffect(() => () => material.dispose(), [material])
+
+  return (
+    <mesh position={[0, 0, z]}>
+      <planeGeometry args={[3.2, 3.2]} />
+      <primitive object={material} attach="material" />
+    </mesh>
+  )
+}
+
+// Exploded card: every layer of one PFP on its own transparent plane, stacked in
+// depth. PFPs without layer images show as a single plane.
+function LayerStack({ face, finish }: { face: FaceTextures, finish: FinishId }) {
+  const planes = face.layers ?? [{ layer: null, texture: face.flat }]
+
+  return (
+    <group userData={{ face }}>
+      {planes.map(({ texture }, index) => (
+        <LayerPlane key={texture.uuid} texture={texture} z={LAYER_BASE_Z + index * LAYER_SPACING} finish={finish} />
+      ))}
+    </group>
+  )
 }
 
 // 3D PFP Card Component
-function PFPCard({ generatedImage, isGenerating, onRefReady }: { 
-  generatedImage: string | null, 
+function PFPCard({ face, isGenerating, transition, finish, exploded, theme, director, onRefReady, onSpinEnd }: { 
+  face: CardFace | null, 
   isGenerating: boolean,
+  transition: TransitionChoice,
+  finish: FinishId,
+  exploded: boolean,
+  theme: LiveTheme,
+  director: React.RefObject<CaptureDirector>,
   onRefReady?: (ref: React.RefObject<THREE.Group>) => void 
+  onSpinEnd?: () => void
 }) {
   const meshRef = useRef<THREE.Group>(null)
-  const currentMeshRef = useRef<THREE.Mesh>(null)
-  const nextMeshRef = useRef<THREE.Mesh>(null)
-  const [currentTexture, setCurrentTexture] = useState<THREE.Texture | null>(null)
-  const [nextTexture, setNextTexture] = useState<THREE.Texture | null>(null)
-  const [isTransitioning, setIsTransitioning] = useState(false)
-  const baseRotation = useRef(0) // The actual base rotation (never changes unless we want it to)
-  const [isSpinning, setIsSpinning] = useState(false)
-  const spinStartRotation = useRef(0)
-  const spinProgress = useRef(0)
-  const transitionProgress = useRef(0)
+  const faceMeshRef = useRef<THREE.Mesh>(null)
+  const layerStacksRef = useRef<THREE.Group>(null)
+  const gl = useThree(state => state.gl)
+  // The spin and crossfade run on a state machine that advances every frame, so it
+  // lives in a ref. Only its textures go through React state, to swap the materials.
+  const animation = useRef(initialCardState<FaceTextures>())
+  const [textures, setTextures] = useState<CardTextures>({ current: null, next: null, queued: null })
+  const [transitionId, setTransitionId] = useState<TransitionId>(() => resolveTransition(transition))
+  const transitionChoice = useRef(transition)
+  const transitionSeed = useRef(0)
+  // Dragging, tilting and flipping, added on top of the animation's pose
+  const controls = useRef(initialControlsState())
+  const gesture = useRef<{ pointerId: number, x: number, y: number, distance: number } | null>(null)
+  const lastTap = useRef(0)
+  const renderWaiters = useRef<(() => void)[]>([])
+
+  // One material per transition shader, swapped in when a transition starts
+  const transitionMaterials = useMemo(
+    () => new Map(TRANSITIONS.map(({ id }) => [id, createTransitionMaterial(id)])),
+    []
+  )
+  // The back always crossfades, a fancy transition would fight with its small print
+  const backMaterial = useMemo(() => createTransitionMaterial('crossfade'), [])
+  const frameMaterial = useMemo(() => new THREE.MeshPhysicalMaterial(), [])
+  const themeScratch = useMemo(() => new THREE.Color(), [])
+
+  useEffect(() => {
+    transitionMaterials.forEach(material => applyFinish(material, finish, 'face'))
+    applyFinish(backMaterial, finish, 'face')
+    applyFinish(frameMaterial, finish, 'frame')
+  }, [finish, transitionMaterials, backMaterial, frameMaterial])
+
+  useEffect(() => {
+    transitionChoice.current = transition
+  }, [transition])
+
+  const dispatch = useCallback((event: CardAnimationEvent<FaceTextures>) => {
+    const previous = animation.current
+    const state = cardAnimationReducer(previous, event)
+    if (state === previous) return
+    animation.current = state
+
+    if (state.current !== previous.current || state.next !== previous.next || state.queued !== previous.queued) {
+      setTextures({ current: state.current, next: state.next, queued: state.queued })
+    }
+    // Every new incoming image gets its own transition (re-rolled for 'random')
+    if (state.next && state.next !== previous.next) {
+      setTransitionId(resolveTransition(transitionChoice.current))
+      transitionSeed.current = Math.random() * 100
+    }
+    if (previous.phase === 'spinning' && state.phase !== 'spinning') {
+      console.log('Spin animation completed')
+      onSpinEnd?.()
+    }
+  }, [onSpinEnd])
   
+  const dispatchControls = useCallback((event: CardControlsEvent) => {
+    controls.current = cardControlsReducer(controls.current, event)
+  }, [])
+
+  // Grab the card to rotate it. Pointer events cover mouse and touch alike.
+  const handlePointerDown = useCallback((event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation()
+    // The spin owns the card until it's done, and so does a capture
+    if (gesture.current || animation.current.phase === 'spinning' || director.current.capturing) return
+    gesture.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, distance: 0 }
+    dispatchControls({ type: 'grab' })
+    gl.domElement.style.cursor = 'grabbing'
+  }, [dispatchControls, gl, director])
+
+  // Follow a grab on the window, so it carries on when the pointer leaves the card
+  useEffect(() => {
+    const handleMove = (event: PointerEvent) => {
+      const current = gesture.current
+      if (!current || event.pointerId !== current.pointerId || director.current.capturing) return
+      const dx = event.clientX - current.x
+      const dy = event.clientY - current.y
+      gesture.current = { ...current, x: event.clientX, y: event.clientY, distance: current.distance + Math.hypot(dx, dy) }
+      dispatchControls({ type: 'drag', dx, dy })
+    }
+
+    const handleUp = (event: PointerEvent) => {
+      const current = gesture.current
+      if (!current || event.pointerId !== current.pointerId) return
+      gesture.current = null
+      dispatchControls({ type: 'release' })
+      gl.domElement.style.cursor = 'grab'
+
+      // Double click or double tap flips the card around
+      if (event.type === 'pointercancel' || current.distance > TAP_SLOP) return
+      if (event.timeStamp - lastTap.current < DOUBLE_TAP_MS) {
+        dispatchControls({ type: 'flip' })
+        lastTap.current = 0
+      } else {
+        lastTap.current = event.timeStamp
+      }
+    }
+
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+    window.addEventListener('pointercancel', handleUp)
+    return () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      window.removeEventListener('pointercancel', handleUp)
+    }
+  }, [dispatchControls, gl, director])
+
+  // Let captures hold the card still and wait for it to catch up
+  useEffect(() => {
+    const captures = director.current
+    captures.card = {
+      settle: () => {
+        gesture.current = null
+        dispatchControls({ type: 'settle' })
+        gl.domElement.style.cursor = ''
+      },
+      rendered: () => new Promise(resolve => {
+        renderWaiters.current.push(resolve)
+      }),
+    }
+    return () => {
+      captures.card = null
+    }
+  }, [director, dispatchControls, gl])
+
   // Notify parent about ref availability
   useEffect(() => {
     if (onRefReady && meshRef.current) {
@@ -44,260 +414,181 @@ function PFPCard({ generatedImage, isGenerating, onRefReady }: {
     }
   }, [onRefReady])
 
-  // Initialize base rotation to 0 on mount
-  useEffect(() => {
-    baseRotation.current = 0
-    // Component initialized
-  }, [])
-
-  // Ensure material opacity is correctly set when materials change
+  // Create textures from the generated images, the state machine decides how they come in
   useEffect(() => {
-    if (currentMeshRef.current?.material && !isTransitioning) {
-      const material = currentMeshRef.current.material as THREE.Material
-      if (material && typeof material.opacity !== 'undefined') {
-        material.opacity = 1.0
-        // Initial opacity set
+    if (face) {
+      // A capture may have loaded this face's textures ahead of time
+      const prepared = director.current.prepared
+      if (prepared?.face === face) {
+        director.current.prepared = null
+        textureManager.adopt(faceTextureList(prepared.textures))
+        dispatch({ type: 'image', texture: prepared.textures })
+        return
       }
-    }
-  }, [currentTexture, isTransitioning])
-  
-  // Create texture from generated image with smooth transitions
-  useEffect(() => {
-    if (generatedImage) {
-      console.log('Loading texture from:', generatedImage)
-      const loader = new THREE.TextureLoader()
-      loader.load(
-        generatedImage, 
-        (loadedTexture) => {
-          console.log('Texture loaded successfully')
-          loadedTexture.flipY = true
-          loadedTexture.wrapS = THREE.ClampToEdgeWrapping
-          loadedTexture.wrapT = THREE.ClampToEdgeWrapping
-          
-          if (currentTexture) {
-            // We have an existing texture, transition to the new one
-            console.log('Starting transition to new texture', { isSpinning })
-            setNextTexture(loadedTexture)
-            // Only start transition immediately if not spinning
-            // If spinning, transition will start based on spin progress
-            if (!isSpinning) {
-              setIsTransitioning(true)
-              transitionProgress.current = 0
-            } else {
-              setIsTransitioning(true)
-              transitionProgress.current = 0
-            }
-          } else {
-            // First texture, set immediately
-            console.log('Setting first texture')
-            setCurrentTexture(loadedTexture)
+
+      console.log('Loading textures for:', face)
+      let cancelled = false
+      loadFaceTextures(face).then(
+        (loadedTextures) => {
+          // A newer image arrived while this one was decoding
+          if (cancelled) {
+            faceTextureList(loadedTextures).forEach(texture => textureManager.release(texture))
+            return
           }
+          console.log('Texture loaded successfully')
+          textureManager.adopt(faceTextureList(loadedTextures))
+          dispatch({ type: 'image', texture: loadedTextures })
         },
-        undefined,
         (error) => {
           console.error('Error loading texture:', error)
         }
       )
+      return () => {
+        cancelled = true
+      }
     } else {
-      setCurrentTexture(null)
-      setNextTexture(null)
-      setIsTransitioning(false)
+      dispatch({ type: 'reset' })
     }
-  }, [generatedImage]) // Removed currentTexture dependency to prevent infinite loading
+  }, [face, dispatch, director])
+
+  // Free the GPU memory of textures that are no longer on the card
+  useEffect(() => {
+    textureManager.releaseUnused([
+      ...faceTextureList(textures.current),
+      ...faceTextureList(textures.next),
+      ...faceTextureList(textures.queued),
+    ])
+  }, [textures])
 
-  // No need for manual uniform updates with this approach
+  useEffect(() => () => {
+    textureManager.releaseAll()
+    transitionMaterials.forEach(material => material.dispose())
+    backMaterial.dispose()
+    frameMaterial.dispose()
+  }, [transitionMaterials, backMaterial, frameMaterial])
 
   // Handle generation start - trigger 360 rotation
   useEffect(() => {
     if (isGenerating) {
-      // Start a new spin from the current base rotation
-      setIsSpinning(true)
-      spinStartRotation.current = baseRotation.current
-      spinProgress.current = 0
+      // Let go of the card so the drag doesn't fight the spin
+      gesture.current = null
+      dispatchControls({ type: 'release' })
+      dispatch({ type: 'spin' })
     }
     // Note: We don't stop spinning when generation ends - let it complete naturally
-  }, [isGenerating])
+  }, [isGenerating, dispatch, dispatchControls])
 
-  // Handle spin completion
+  // The card has caught up once it renders the textures the state machine holds
   useEffect(() => {
-    if (!isSpinning && isTransitioning && nextTexture) {
-      // Spin just completed and we have a pending transition
-      console.log('Spin completed, finalizing texture transition')
-      setCurrentTexture(nextTexture)
-      setNextTexture(null)
-      setIsTransitioning(false)
-    }
-  }, [isSpinning, isTransitioning, nextTexture])
+    const state = animation.current
+    if (textures.current !== state.current || textures.next !== state.next || textures.queued !== state.queued) return
+    renderWaiters.current.splice(0).forEach(resolve => resolve())
+  })
 
   // Animation loop
   useFrame((state, delta) => {
+    dispatch({ type: 'tick', delta })
+    const current = animation.current
+
+    // The resting card leans toward the pointer, easing in and out like the float.
+    // Captures leave the pointer out.
+    const tilt = director.current.capturing ? 0 : POINTER_TILT * current.float
+    dispatchControls({ type: 'tick', delta, pointer: state.pointer, tilt })
+
     if (meshRef.current) {
-      let currentYRotation = baseRotation.current
-      
-      // Handle spinning animation - ALWAYS complete the spin if started
-      if (isSpinning) {
-        const spinSpeed = 1.5 // Speed of spinning
-        spinProgress.current = Math.min(spinProgress.current + delta * spinSpeed, 1.0)
-        
-        // Smooth easing for the spin
-        const easedProgress = spinProgress.current * spinProgress.current * (3 - 2 * spinProgress.current) // smoothstep
-        currentYRotation = spinStartRotation.current + (Math.PI * 2) * easedProgress
-        
-        // Set rotation directly during spin - no other animations
-        meshRef.current.rotation.y = currentYRotation
-        meshRef.current.rotation.x = 0
-        meshRef.current.position.y = 0
-        
-        // Check if spin is complete
-        if (spinProgress.current >= 1.0) {
-          // Spin completed - normalize and finish
-          const completedRotation = spinStartRotation.current + Math.PI * 2
-          const normalizedRotation = ((completedRotation % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)
-          baseRotation.current = normalizedRotation > Math.PI ? normalizedRotation - Math.PI * 2 : normalizedRotation
-          setIsSpinning(false)
-          spinProgress.current = 0
-          console.log('Spin animation completed')
-        }
-      } else {
-        // Apply gentle floating animation when idle
-        meshRef.current.rotation.x = Math.sin(state.clock.elapsedTime * 0.3) * 0.02
-        meshRef.current.position.y = Math.sin(state.clock.elapsedTime * 0.8) * 0.1
-        // Add gentle Y rotation floating
-        meshRef.current.rotation.y = currentYRotation + Math.sin(state.clock.elapsedTime * 0.5) * 0.05
-      }
+      const pose = cardPose(current, state.clock.elapsedTime)
+      const rotation = controlsRotation(controls.current)
+      meshRef.current.rotation.x = pose.rotationX + rotation.x
+      meshRef.current.rotation.y = pose.rotationY + rotation.y + director.current.turntable
+      meshRef.current.position.y = pose.positionY
     }
 
-    // Handle texture transitions and spinning fade effects
-    if (isTransitioning && nextTexture && currentMeshRef.current && nextMeshRef.current) {
-      // Check if we're transitioning during spinning
-      if (isSpinning) {
-        // During spinning: direct crossfade from old to new texture
-        // Start crossfading when spin reaches certain progress
-        const crossfadeStart = 0.4 // Start crossfade at 40% of spin
-        const crossfadeProgress = Math.max(0, Math.min((spinProgress.current - crossfadeStart) / (1.0 - crossfadeStart), 1.0))
-        
-        if (currentMeshRef.current.material) {
-          const material = currentMeshRef.current.material as THREE.Material
-          if (material && typeof material.opacity !== 'undefined') {
-            material.opacity = 1.0 - crossfadeProgress
-          }
-        }
-        if (nextMeshRef.current.material) {
-          const material = nextMeshRef.current.material as THREE.Material
-          if (material && typeof material.opacity !== 'undefined') {
-            material.opacity = crossfadeProgress
-          }
-        }
-        
-        // Transition will complete when spin finishes (handled by isSpinning useEffect)
-      } else if (!isSpinning && nextTexture) {
-        // Spin is completely done, immediately complete transition
-        console.log('Spin finished, completing transition immediately')
-        setCurrentTexture(nextTexture)
-        setNextTexture(null)
-        setIsTransitioning(false)
-      } else {
-        // Normal transition timing when not spinning
-        const transitionSpeed = 2.0 // Transition duration (higher = faster)
-        transitionProgress.current += delta * transitionSpeed
-        
-        if (transitionProgress.current >= 1.0) {
-          // Transition complete
-          console.log('Normal transition complete', { nextTexture })
-          transitionProgress.current = 1.0
-          if (nextTexture) {
-            setCurrentTexture(nextTexture)
-            setNextTexture(null)
-            setIsTransitioning(false)
-          }
-        }
-        
-        // Update opacity for crossfade effect
-        const progress = Math.min(transitionProgress.current, 1.0)
-        if (currentMeshRef.current.material) {
-          const material = currentMeshRef.current.material as THREE.Material
-          if (material && typeof material.opacity !== 'undefined') {
-            material.opacity = 1.0 - progress
-          }
-        }
-        if (nextMeshRef.current.material) {
-          const material = nextMeshRef.current.material as THREE.Material
-          if (material && typeof material.opacity !== 'undefined') {
-            material.opacity = progress
-          }
-        }
-      }
+    // Layer stacks crossfade by plain opacity
+    for (const stack of layerStacksRef.current?.children ?? []) {
+      const opacity = textureOpacity(current, stack.userData.face as FaceTextures)
+      stack.visible = opacity > 0
+      stack.traverse(object => {
+        if (object instanceof THREE.Mesh) (object.material as THREE.Material).opacity = opacity
+      })
     }
-    
-    // Always ensure proper opacity for current texture when not in active transition
-    if (!isTransitioning) {
-      if (currentMeshRef.current?.material) {
-        const material = currentMeshRef.current.material as THREE.Material
-        if (material && typeof material.opacity !== 'undefined') {
-          // The current mesh should always be visible (either with texture or placeholder)
-          material.opacity = 1.0
-          
-          // Material opacity is properly set
-        }
-      }
-      if (nextMeshRef.current?.material) {
-        const nextMaterial = nextMeshRef.current.material as THREE.Material
-        if (nextMaterial && typeof nextMaterial.opacity !== 'undefined') {
-          nextMaterial.opacity = 0.0
-        }
-      }
+
+    // Feed the transition shader straight from the state machine, which may be a
+    // frame ahead of the textures React has rendered
+    const material = faceMeshRef.current?.material
+    if (current.current && material instanceof THREE.MeshPhysicalMaterial && material.userData.transitionUniforms) {
+      setTransitionState(material, current.current.flat, current.next?.flat ?? null, crossfadeAmount(current), transitionSeed.current)
+    }
+    if (current.current) {
+      setTransitionState(backMaterial, current.current.back, current.next?.back ?? null, crossfadeAmount(current))
+    }
+
+    // The theme moves to the next PFP's colors as its image fades in
+    const fromTheme = current.current?.theme ?? DEFAULT_THEME
+    const toTheme = current.next?.theme ?? fromTheme
+    const amount = crossfadeAmount(current)
+    for (const key of THEME_KEYS) {
+      theme[key].set(fromTheme[key]).lerp(themeScratch.set(toTheme[key]), amount)
+    }
+
+    // The border wears the theme unless the finish has a color of its own
+    const fixedFrameColor = finishFrameColor(finish)
+    if (fixedFrameColor) {
+      frameMaterial.color.set(fixedFrameColor.color)
+      frameMaterial.emissive.set(fixedFrameColor.emissive)
+    } else {
+      frameMaterial.color.copy(theme.border)
+      frameMaterial.emissive.copy(theme.border)
     }
   })
 
   return (
-    <group ref={meshRef}>
+    <group
+      ref={meshRef}
+      onPointerDown={handlePointerDown}
+      onPointerOver={() => {
+        if (!gesture.current) gl.domElement.style.cursor = 'grab'
+      }}
+      onPointerOut={() => {
+        if (!gesture.current) gl.domElement.style.cursor = ''
+      }}
+    >
       {/* Card border/frame effect (behind) */}
       <Box args={[3.4, 3.4, 0.2]} position={[0, 0, -0.15]}>
-        <meshStandardMaterial
-          color="#ff6b9d"
-          metalness={0.8}
-          roughness={0.2}
-          emissive="#ff6b9d"
-          emissiveIntensity={0.1}
-        />
+        <primitive object={frameMaterial} attach="material" />
       </Box>
       
-      {/* Current texture mesh */}
-      <mesh ref={currentMeshRef} castShadow receiveShadow position={[0, 0, 0]}>
+      {/* PFP face - the transition shader blends the old and new PFP. The exploded
+          card shows its layers in front of a plain card body instead. */}
+      <mesh ref={faceMeshRef} castShadow receiveShadow position={[0, 0, 0]}>
         <boxGeometry args={[3.2, 3.2, 0.15]} />
-        {currentTexture ? (
-          <meshPhysicalMaterial
-            map={currentTexture}
-            side={THREE.DoubleSide}
-            emissive="white"
-            emissiveMap={currentTexture}
-            emissiveIntensity={0.5}
-            transparent={true}
-          />
+        {textures.current && !exploded ? (
+          <primitive object={transitionMaterials.get(transitionId)!} attach="material" />
         ) : (
           <meshStandardMaterial
             color="#667eea"
             metalness={0.1}
             roughness={0.7}
             side={THREE.DoubleSide}
-            transparent={true}
           />
         )}
       </mesh>
 
-      {/* Next texture mesh (for transitions) */}
-      {nextTexture && isTransitioning && (
-        <mesh ref={nextMeshRef} castShadow receiveShadow position={[0, 0, 0.001]}>
-          <boxGeometry args={[3.2, 3.2, 0.15]} />
-          <meshPhysicalMaterial
-            map={nextTexture}
-            side={THREE.DoubleSide}
-            emissive="white"
-            emissiveMap={nextTexture}
-            emissiveIntensity={0.5}
-            transparent={true}
-          />
-        </mesh>
+      {/* Card back - traits, rarity and seed, just behind the frame */}
+      <mesh position={[0, 0, -0.26]} rotation={[0, Math.PI, 0]}>
+        <planeGeometry args={[3.2, 3.2]} />
+        {textures.current ? (
+          <primitive object={backMaterial} attach="material" />
+        ) : (
+          <meshStandardMaterial color="#667eea" metalness={0.1} roughness={0.7} />
+        )}
+      </mesh>
+
+      {exploded && (
+        <group ref={layerStacksRef}>
+          {[textures.current, textures.next].map(stackFace => stackFace && (
+            <LayerStack key={stackFace.flat.uuid} face={stackFace} finish={finish} />
+          ))}
+        </group>
       )}
     </group>
   )
@@ -307,26 +598,85 @@ function PFPCard({ generatedImage, isGenerating, onRefReady }: {
 function CameraSetup() {
   const { camera } = useThree()
   
-  useFrame(() => {
+  // Aim once: nothing else moves the camera, so there's no need to every frame
+  useEffect(() => {
     // Set camera to look slightly to the right
     camera.lookAt(0.16, 0, 0) // Shift target 0.5 units to the right on x-axis
-  })
+  }, [camera])
   
   return null
 }
 
+// Scene background, following the live theme
+function Backdrop({ color }: { color: THREE.Color }) {
+  const scene = useThree(state => state.scene)
+
+  // The color is updated in place, so the scene picks up every change by itself
+  useEffect(() => {
+    scene.background = color
+    return () => {
+      scene.background = null
+    }
+  }, [scene, color])
+
+  return null
+}
+
+// Image-based lighting that metal and clearcoat finishes reflect. Maps made for
+// one WebGL context can't be used in another, so a capture drawing the scene
+// from a canvas of its own mounts one too.
+function SceneEnvironment({ scene }: { scene?: THREE.Scene }) {
+  return <Environment preset="city" background={false} scene={scene} />
+}
+
+// Hands the scene's state out of the canvas, for captures
+function CaptureBridge({ onReady }: { onReady: (getState: () => RootState) => void }) {
+  const getState = useThree(state => state.get)
+
+  useEffect(() => {
+    onReady(getState)
+  }, [onReady, getState])
+
+  return null
+}
+
 // 3D Scene Component
-function Scene({ generatedImage, isGenerating }: { generatedImage: string | null, isGenerating: boolean }) {
+function Scene({ face, isGenerating, transition, finish, exploded, particles, frameConfig, burstColor, director, onSpinEnd }: {
+  face: CardFace | null,
+  isGenerating: boolean,
+  transition: TransitionChoice,
+  finish: FinishId,
+  exploded: boolean,
+  particles: ParticleMode,
+  frameConfig: ParticleFrameConfig,
+  burstColor?: string,
+  director: React.RefObject<CaptureDirector>,
+  onSpinEnd?: () => void
+}) {
   const [cardRef, setCardRef] = useState<React.RefObject<THREE.Group> | null>(null)
   
   const handleCardRefReady = (ref: React.RefObject<THREE.Group>) => {
     setCardRef(ref)
   }
+
+  const ignorePointer = useCallback(() => director.current.capturing, [director])
+  const handleSilhouetteSampling = useCallback((sampled: Promise<void>) => {
+    director.current.silhouette = sampled
+  }, [director])
+
+  // Theme colors the card blends every frame and the rest of the scene follows
+  const theme = useMemo<LiveTheme>(() => ({
+    primary: new THREE.Color(DEFAULT_THEME.primary),
+    secondary: new THREE.Color(DEFAULT_THEME.secondary),
+    border: new THREE.Color(DEFAULT_THEME.border),
+    backdrop: new THREE.Color(DEFAULT_THEME.backdrop),
+  }), [])
   
   return (
     <>
       {/* Camera setup */}
       <CameraSetup />
+      <Backdrop color={theme.backdrop} />
       
       {/* Lighting setup for card display */}
       <ambientLight intensity={0.8} />
@@ -345,424 +695,462 @@ function Scene({ generatedImage, isGenerating }: { generatedImage: string | null
       <pointLight position={[0, 0, 3]} intensity={0.5} color="#ffffff" />
       
       {/* Environment */}
-      <Environment preset="city" background={false} />
+      <SceneEnvironment />
       
       {/* PFP Card */}
       <PFPCard 
-        generatedImage={generatedImage} 
+        face={face} 
         isGenerating={isGenerating} 
+        transition={transition}
+        finish={finish}
+        exploded={exploded}
+        theme={theme}
+        director={director}
         onRefReady={handleCardRefReady}
+        onSpinEnd={onSpinEnd}
       />
       
       {/* Particle Frame */}
-      {cardRef && (
+      {cardRef && (particles === 'both' || particles === 'frame') && (
         <ParticleFrame 
           cardRef={cardRef} 
           isGenerating={isGenerating}
+          config={frameConfig}
+          themeColors={theme}
           // numParticles={150}  // Removed to use default
         />
       )}
+
+      {/* Particles off the PFP's silhouette, pushed around by the pointer */}
+      {cardRef && (particles === 'both' || particles === 'forcefield') && (
+        <FloatingParticles
+          cardRef={cardRef}
+          selection={face?.selection ?? null}
+          burstColor={burstColor}
+          ignorePointer={ignorePointer}
+          onSampling={handleSilhouetteSampling}
+        />
+      )}
     </>
   )
 }
 
+// Post-processing of the live view, and of captures drawing the live scene and
+// camera on a canvas of their own
+function PostProcessing({ pixelation, look, scene, camera }: {
+  pixelation: boolean,
+  look: LookSettings,
+  scene?: THREE.Scene,
+  camera?: THREE.Camera,
+}) {
+  return (
+    <EffectComposer scene={scene} camera={camera}>
+      <Bloom luminanceThreshold={0.5} luminanceSmoothing={0.4} intensity={0.6} />
+      <ToneMapping adaptive={true} resolution={256} />
+      <BrightnessContrast brightness={0.05} contrast={0.1} />
+      {pixelation ? <Pixelation granularity={6} /> : <></>}
+      <LookEffects look={look} />
+    </EffectComposer>
+  )
+}
+
 function App() {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null)
+  const [cardFace, setCardFace] = useState<CardFace | null>(null)
   const [isGenerating, setIsGenerating] = useState(false)
   const [pixelationEnabled, setPixelationEnabled] = useState(false)
-
-  const [availableFiles, setAvailableFiles] = useState<Record<string, string[]>>({})
-  const [isLoadingAssets, setIsLoadingAssets] = useState(true)
-  
-  // State for layer probabilities (only for optional layers)
-  const [layerProbabilities] = useState({
-    backgrounds: 0.8,
-    z1: 0.6,
-    z3: 0.7,
-    z4: 0.5,
+  const [explodedEnabled, setExplodedEnabled] = useState(false)
+  const [transition, setTransition] = useState<TransitionChoice>(DEFAULT_TRANSITION)
+  const [finish, setFinish] = useState<FinishChoice>('auto')
+  const [particleMode, setParticleMode] = useState<ParticleMode>('both')
+  const [framePreset, setFramePreset] = useState<ParticleFramePresetId>(DEFAULT_FRAME_PRESET)
+  const frameConfig = useMemo(() => framePresetConfig(framePreset), [framePreset])
+  const [seed, setSeed] = useState<string | null>(null)
+  const [seedInput, setSeedInput] = useState('')
+  // A shared look wins over the saved one, and becomes the saved one
+  const [look, setLook] = useState<LookSettings>(() => SHARED.look ?? loadPreferences().look)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [pixelArtEnabled, setPixelArtEnabled] = useState(false)
+  const [pixelArt, setPixelArt] = useState<PixelArtSettings>(DEFAULT_PIXEL_ART)
+  // The card face baked as pixel art, and the face it was baked from
+  const [pixelPreview, setPixelPreview] = useState<{ source: CardFace, settings: PixelArtSettings, face: CardFace } | null>(null)
+  const [rarity, setRarity] = useState<RarityReport | null>(null)
+  const [generationError, setGenerationError] = useState<string | null>(null)
+  const [selection, setSelection] = useState<GeneratedTraits | null>(null)
+  const [locks, setLocks] = useState<PartialTraits>({})
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null)
+  const [showBatchPanel, setShowBatchPanel] = useState(false)
+  const [showExportPanel, setShowExportPanel] = useState(false)
+  const [showCapturePanel, setShowCapturePanel] = useState(false)
+  // Captures drive the frame loop themselves while they run
+  const [isCapturing, setIsCapturing] = useState(false)
+  const sceneState = useRef<(() => RootState) | null>(null)
+  const captureDirector = useRef<CaptureDirector>({
+    capturing: false,
+    turntable: 0,
+    prepared: null,
+    card: null,
+    silhouette: null,
   })
+  // Scene time when the frame loop last switched, see handleCapturingChange
+  const sceneTimeAtSwitch = useRef<number | null>(null)
+  const [isCardSpinning, setIsCardSpinning] = useState(false)
+  const [rendererStats, setRendererStats] = useState<RendererStatsSample | null>(null)
+  const [assetProgress, setAssetProgress] = useState<{ loaded: number, total: number } | null>({ loaded: 0, total: 0 })
 
-  // Function to check if an image exists
-  const checkImageExists = (url: string): Promise<boolean> => {
-    return new Promise((resolve) => {
-      const img = new Image()
-      img.onload = () => {
-        resolve(true)
-      }
-      img.onerror = () => {
-        resolve(false)
-      }
-      // Add a timeout to prevent hanging requests
-      setTimeout(() => {
-        resolve(false)
-      }, 5000)
-      img.src = url
-    })
+  // Compositing is nearly instant, so a generation lasts until the card finishes its spin
+  const isBusy = isGenerating || isCardSpinning
+  // A capture steers the card itself, so the PFP can't change under it
+  const isPFPLocked = isBusy || isCapturing
+  const handleSpinEnd = useCallback(() => setIsCardSpinning(false), [])
+  const handleSceneReady = useCallback((getState: () => RootState) => {
+    sceneState.current = getState
+  }, [])
+
+  useEffect(() => {
+    savePreferences({ look })
+  }, [look])
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => {
+        setLinkCopied(true)
+        setTimeout(() => setLinkCopied(false), 1500)
+      })
+      .catch(error => console.error('❌ Could not copy the link:', error))
   }
 
-  // Function to try different naming patterns and discover files
-  const tryNamingPatterns = async (layerName: string): Promise<string[]> => {
-    const discoveredFiles: string[] = []
-    
-    // Layer-specific file patterns to try based on actual file structure
-    const patterns = []
-    
-    if (layerName === 'backgrounds') {
-      // Background files are named "background_XXX.png" (singular)
-      patterns.push(
-        () => `background_000.png`,
-        () => `background_001.png`,
-        () => `background_002.png`,
-        () => `background_003.png`,
-        () => `background_004.png`,
-      )
-    } else if (layerName === 'z0') {
-      patterns.push(() => `z0_lolcat.png`)
-    } else if (layerName === 'z1') {
-      patterns.push(
-        () => `z1_hand_000.png`,
-        () => `z1_hand_001.png`,
-        () => `z1_hand_002.png`,
-      )
-    } else if (layerName === 'z2') {
-      patterns.push(() => `z2_paw.png`)
-    } else if (layerName === 'z3') {
-      patterns.push(
-        () => `z3_eye_000.png`,
-        () => `z3_eye_001.png`,
-      )
-    } else if (layerName === 'z4') {
-      patterns.push(
-        () => `z4_head_000.png`,
-        () => `z4_head_001.png`,
-        () => `z4_head_002.png`,
-      )
-    } else if (layerName === 'z5') {
-      patterns.push(() => `z5_whiskers.png`)
-    } else {
-      // Fallback pattern for unknown layers
-      patterns.push(() => `${layerName}.png`)
+  // Decode every trait once up front so compositing never waits on the network
+  useEffect(() => {
+    compositorPool.preload(availableFiles, (loaded, total) => setAssetProgress({ loaded, total }))
+      .catch(error => console.error('❌ Could not preload traits:', error))
+      .finally(() => setAssetProgress(null))
+  }, [])
+
+  // Load PFPs generated in past sessions
+  useEffect(() => {
+    loadHistory()
+      .then(entries => setHistory(previous => [...entries, ...previous]))
+      .catch(error => console.error('❌ Could not load PFP history:', error))
+  }, [])
+
+  // Function to generate the PFP - the same seed (and locks) always produces the same image.
+  // Only layers without a lock are randomized.
+  const generatePFP = async (
+    requestedSeed?: string,
+    lockedTraits: PartialTraits = locks,
+    lockedCSSBackground: CSSBackground | null = selection?.cssBackground ?? null
+  ) => {
+    const pfpSeed = requestedSeed || generateSeed()
+    const rng = createRng(pfpSeed)
+
+    // Pick every trait up front, then draw the layers in z-index order. Locks that
+    // break a rule stop here, before the seed changes or the card starts spinning.
+    let generated: GeneratedTraits
+    try {
+      generated = selectTraits(rng, availableFiles, {
+        locked: lockedTraits,
+        lockedCSSBackground,
+      })
+      setGenerationError(null)
+    } catch (error) {
+      console.error('❌ Could not pick traits:', error)
+      setGenerationError(error instanceof Error ? error.message : String(error))
+      return
     }
-    
-    // Try each pattern
-    for (const patternFn of patterns) {
-      const filename = patternFn()
-      const url = `/pfp/${layerName}/${filename}`
-      const exists = await checkImageExists(url)
-      if (exists && !discoveredFiles.includes(filename)) {
-        discoveredFiles.push(filename)
-        
-        // If we found a numbered file, look for more in that series
-        if (filename.includes('_') && filename.match(/_\d{3}\.png$/)) {
-          const basePattern = filename.replace(/_\d{3}\.png$/, '_')
-          const extension = '.png'
-          
-          // Look for more files in this series
-          for (let i = 1; i < 50; i++) { // Check up to 50 files
-            const numberedFilename = `${basePattern}${i.toString().padStart(3, '0')}${extension}`
-            if (!discoveredFiles.includes(numberedFilename)) {
-              const numberedUrl = `/pfp/${layerName}/${numberedFilename}`
-              const numberedExists = await checkImageExists(numberedUrl)
-              if (numberedExists) {
-                discoveredFiles.push(numberedFilename)
-              } else {
-                break // Stop when we hit a gap
-              }
-            }
-          }
-        }
-      }
+    setSeed(pfpSeed)
+    setSeedInput(pfpSeed)
+    setIsGenerating(true)
+    setIsCardSpinning(true)
+    setSelection(generated)
+
+    // The new image lands on the card mid-spin and crossfades in as the spin completes
+    let drawn: DrawnPFP
+    try {
+      drawn = await drawPFP(pfpSeed, generated, lockedTraits, explodedEnabled)
+    } catch (error) {
+      console.error('❌ Could not composite PFP:', error)
+      setGenerationError(error instanceof Error ? error.message : String(error))
+      setIsGenerating(false)
+      return
     }
-    
-    return discoveredFiles
+    showPFP(drawn)
   }
 
-  // Function to discover files in a layer folder
-  const discoverLayerFiles = async (layerName: string): Promise<string[]> => {
-    const config = LAYER_CONFIG[layerName as keyof typeof LAYER_CONFIG]
-    if (!config) return []
-    
-    console.log(`🔍 Discovering files for layer: ${layerName}`)
-    
-    // First try common naming patterns
-    let discoveredFiles = await tryNamingPatterns(layerName)
-    
-    // If no files found with patterns, try a more comprehensive search
-    if (discoveredFiles.length === 0) {
-      console.log(`🔍 No files found with patterns, trying comprehensive search for ${layerName}`)
-      
-      // Try some common prefixes for different layers based on actual file structure
-      const commonPrefixes = layerName === 'backgrounds' 
-        ? ['background']  // backgrounds use singular "background"
-        : [`${layerName}`] // z0, z1, z2, etc. use their layer name as prefix
-      
-      for (const prefix of commonPrefixes) {
-        // Try numbered files
-        for (let i = 0; i < 20; i++) {
-          const filename = `${prefix}_${i.toString().padStart(3, '0')}.png`
-          const url = `/pfp/${layerName}/${filename}`
-          const exists = await checkImageExists(url)
-          if (exists) {
-            discoveredFiles.push(filename)
-          } else if (discoveredFiles.length > 0) {
-            break // Stop at first gap after finding files
-          }
-        }
-        
-        // Try single file
-        const singleFilename = `${prefix}.png`
-        const singleUrl = `/pfp/${layerName}/${singleFilename}`
-        const singleExists = await checkImageExists(singleUrl)
-        if (singleExists && !discoveredFiles.includes(singleFilename)) {
-          discoveredFiles.push(singleFilename)
-        }
-      }
+  // Put a freshly drawn PFP on the card and keep it in the history gallery
+  const showPFP = ({ seed: pfpSeed, lockedTraits, rarity: pfpRarity, face }: DrawnPFP) => {
+    setSeed(pfpSeed)
+    setSeedInput(pfpSeed)
+    setSelection(face.selection)
+    setRarity(pfpRarity)
+    setCardFace(face)
+    setIsGenerating(false)
+    setGenerationError(null)
+
+    const entry: HistoryEntry = {
+      id: createHistoryId(),
+      createdAt: Date.now(),
+      seed: pfpSeed,
+      selection: face.selection,
+      locks: lockedTraits,
+      image: face.image,
+      metadata: buildMetadata({ seed: pfpSeed, selection: face.selection, rarity: pfpRarity }),
+      favorite: false,
     }
-    
-    console.log(`✅ Found ${discoveredFiles.length} files for ${layerName}:`, discoveredFiles)
-    return discoveredFiles
+    setHistory(previous => [...previous, entry])
+    setCurrentHistoryId(entry.id)
+    saveHistoryEntry(entry).catch(error => console.error('❌ Could not save PFP to history:', error))
   }
 
-  // Function to discover all available files
-  const discoverAllFiles = async () => {
-    setIsLoadingAssets(true)
-    const discovered: Record<string, string[]> = {}
-    
-    try {
-      const layers = Object.keys(LAYER_CONFIG)
-      console.log('🔍 Starting asset discovery for layers:', layers)
-      
-      for (const layer of layers) {
-        console.log(`📁 Discovering files for layer: ${layer}`)
-        discovered[layer] = await discoverLayerFiles(layer)
-        console.log(`✅ Found ${discovered[layer].length} files for ${layer}:`, discovered[layer])
-      }
-      
-      setAvailableFiles(discovered)
-      console.log('🎉 Asset discovery complete!', discovered)
-    } catch (error) {
-      console.error('❌ Error during asset discovery:', error)
-    } finally {
-      setIsLoadingAssets(false)
+  // The exploded card needs every layer on its own. Render them for PFPs that came
+  // without (restored from history, or made before the mode was switched on).
+  useEffect(() => {
+    if (!explodedEnabled || !cardFace || cardFace.layers) return
+    let cancelled = false
+    compositorPool.composeLayers(cardFace.selection, LAYER_IMAGE_SIZE)
+      .then(layers => {
+        if (!cancelled) setCardFace(previous => previous === cardFace ? { ...cardFace, layers } : previous)
+      })
+      .catch(error => console.error('❌ Could not render PFP layers:', error))
+    return () => {
+      cancelled = true
     }
-  }
+  }, [explodedEnabled, cardFace])
 
-  // Discover files on component mount
+  // Bake the pixel art preview whenever the PFP or the settings change. The card
+  // keeps the last preview until the new one is ready, so a new PFP doesn't
+  // flash up unbaked first.
   useEffect(() => {
-    discoverAllFiles()
-  }, [])
+    if (!pixelArtEnabled || !cardFace) return
+    // Already baked, like the PFP of a spin clip
+    if (pixelPreview?.source === cardFace && pixelPreview.settings === pixelArt) return
+    let cancelled = false
+    bakePixelArt(cardFace.image, pixelArt, PFP_SIZE)
+      .then(image => {
+        if (!cancelled) setPixelPreview({ source: cardFace, settings: pixelArt, face: { ...cardFace, image } })
+      })
+      .catch(error => console.error('❌ Could not bake the pixel art:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [pixelArtEnabled, pixelArt, cardFace, pixelPreview])
 
-  // Function to generate random colors
-  const generateRandomColor = (): string => {
-    const colors = [
-      // Bright colors
-      '#FF6B9D', '#C44569', '#F8B500', '#FF3838', '#FF6348',
-      '#1DD1A1', '#00D2D3', '#0ABDE3', '#3742FA', '#5F27CD',
-      '#FD79A8', '#FDCB6E', '#6C5CE7', '#A29BFE', '#00B894',
-      '#00CEC9', '#0984E3', '#74B9FF', '#E17055', '#81ECEC',
-      '#FF7675', '#FFDD59', '#00B894', '#6C5CE7', '#FF6B6B',
-      
-      // Dark colors
-      '#2C2C54', '#40407A', '#706FD3', '#474787', '#8C7AE6',
-      '#34495E', '#2F3542', '#57606F', '#A4B0BE', '#747D8C',
-      '#5F27CD', '#341F97', '#6C5CE7', '#A29BFE', '#74B9FF',
-      '#2D3436', '#636E72', '#B2BEC3', '#DDD6FE', '#6366F1',
-      '#1E1E2E', '#313244', '#45475A', '#585B70', '#6C7086',
-      '#7F849C', '#9399B2', '#A6ADC8', '#BAC2DE', '#CDD6F4',
-      
-      // Very dark colors and black
-      '#000000', '#1A1A1A', '#2D2D2D', '#404040', '#1F1F23',
-      '#0F0F23', '#262626', '#181818', '#0D1117', '#161B22',
-      '#21262D', '#30363D', '#21262D', '#0E0E0E', '#141414',
-      
-      // Dark accent colors
-      '#8B0000', '#800080', '#483D8B', '#2F4F4F', '#000080',
-      '#008B8B', '#556B2F', '#8B4513', '#2F4F4F', '#191970',
-      '#8B008B', '#9932CC', '#4B0082', '#6A0DAD', '#4B0082'
-    ]
-    return colors[Math.floor(Math.random() * colors.length)]
+  const shownFace = pixelArtEnabled && pixelPreview ? pixelPreview.face : cardFace
+
+  const handleTogglePixelArt = () => {
+    setPixelArtEnabled(!pixelArtEnabled)
+    // A preview from an earlier PFP must not show up when it's switched back on
+    setPixelPreview(null)
   }
 
-  // Function to generate random gradient
-  const generateRandomGradient = (): string => {
-    const directions = ['45deg', '90deg', '135deg', '180deg', '225deg', '270deg', '315deg', '0deg']
-    const direction = directions[Math.floor(Math.random() * directions.length)]
-    const color1 = generateRandomColor()
-    const color2 = generateRandomColor()
-    const color3 = generateRandomColor()
-    
-    // Sometimes use 2 colors, sometimes 3
-    if (Math.random() > 0.3) {
-      return `linear-gradient(${direction}, ${color1}, ${color2})`
-    } else {
-      return `linear-gradient(${direction}, ${color1}, ${color2}, ${color3})`
+  const handleExportPixelArt = async () => {
+    if (!cardFace || !seed) return
+    try {
+      const image = await bakePixelArt(cardFace.image, pixelArt, PFP_SIZE)
+      downloadBlob(image, `${pfpFileBase(seed)}-pixel-${pixelArt.grid}-${pixelArt.palette}.png`)
+    } catch (error) {
+      console.error('❌ Could not export the pixel art:', error)
+      setGenerationError(error instanceof Error ? error.message : String(error))
     }
   }
 
-  // Function to generate CSS background
-  const generateCSSBackground = (): { type: 'gradient' | 'solid', value: string } => {
-    if (Math.random() > 0.3) {
-      // 70% chance for gradient
-      return { type: 'gradient', value: generateRandomGradient() }
-    } else {
-      // 30% chance for solid color
-      return { type: 'solid', value: generateRandomColor() }
+  // Put a PFP from the history back onto the card (crossfades like a new one)
+  const restoreHistoryEntry = useCallback(async (entry: HistoryEntry) => {
+    const entryRarity = computeRarity(entry.selection.traits, availableFiles)
+    let back: Blob
+    try {
+      back = await renderCardBack({ seed: entry.seed, rarity: entryRarity, image: entry.image }, CARD_BACK_SIZE)
+    } catch (error) {
+      console.error('❌ Could not draw the card back:', error)
+      setGenerationError(error instanceof Error ? error.message : String(error))
+      return
     }
+
+    setCardFace({ image: entry.image, back, selection: entry.selection, layers: null })
+    setSeed(entry.seed)
+    setSeedInput(entry.seed)
+    setSelection(entry.selection)
+    setRarity(entryRarity)
+    setGenerationError(null)
+    setCurrentHistoryId(entry.id)
+  }, [])
+
+  const handleToggleFavorite = (entry: HistoryEntry) => {
+    const updated = { ...entry, favorite: !entry.favorite }
+    setHistory(previous => previous.map(item => item.id === entry.id ? updated : item))
+    saveHistoryEntry(updated).catch(error => console.error('❌ Could not update PFP history:', error))
   }
 
-  // Function to draw CSS background on canvas
-  const drawCSSBackground = (ctx: CanvasRenderingContext2D, background: { type: 'gradient' | 'solid', value: string }, width: number, height: number) => {
-    if (background.type === 'solid') {
-      // Draw solid color
-      ctx.fillStyle = background.value
-      ctx.fillRect(0, 0, width, height)
-    } else {
-      // Draw gradient - parse the CSS gradient and create canvas gradient
-      const gradientMatch = background.value.match(/linear-gradient\(([^)]+)\)/)
-      if (gradientMatch) {
-        const params = gradientMatch[1].split(',').map(p => p.trim())
-        const direction = params[0]
-        const colors = params.slice(1)
-        
-        // Convert CSS direction to canvas coordinates
-        let x0 = 0, y0 = 0, x1 = width, y1 = height
-        
-        if (direction.includes('45deg')) {
-          x0 = 0; y0 = height; x1 = width; y1 = 0
-        } else if (direction.includes('90deg')) {
-          x0 = 0; y0 = height; x1 = 0; y1 = 0
-        } else if (direction.includes('135deg')) {
-          x0 = width; y0 = height; x1 = 0; y1 = 0
-        } else if (direction.includes('180deg')) {
-          x0 = width; y0 = 0; x1 = 0; y1 = 0
-        } else if (direction.includes('225deg')) {
-          x0 = width; y0 = 0; x1 = 0; y1 = height
-        } else if (direction.includes('270deg')) {
-          x0 = 0; y0 = 0; x1 = 0; y1 = height
-        } else if (direction.includes('315deg')) {
-          x0 = 0; y0 = 0; x1 = width; y1 = height
-        }
-        
-        const gradient = ctx.createLinearGradient(x0, y0, x1, y1)
-        
-        // Add color stops
-        colors.forEach((color, index) => {
-          const stop = colors.length === 1 ? 0 : index / (colors.length - 1)
-          gradient.addColorStop(stop, color)
-        })
-        
-        ctx.fillStyle = gradient
-        ctx.fillRect(0, 0, width, height)
-      }
-    }
+  const handleDeleteEntry = (entry: HistoryEntry) => {
+    setHistory(previous => previous.filter(item => item.id !== entry.id))
+    if (entry.id === currentHistoryId) setCurrentHistoryId(null)
+    deleteHistoryEntry(entry.id).catch(error => console.error('❌ Could not delete PFP from history:', error))
+  }
+
+  const currentEntry = history.find(entry => entry.id === currentHistoryId) ?? null
+
+  // Keep the address bar a link to the current PFP and look. The seed alone only
+  // rolls the same PFP when nothing was locked or picked by hand.
+  const sharedSelection = currentEntry && currentEntry.seed === seed && Object.keys(currentEntry.locks).length > 0
+    ? currentEntry.selection
+    : null
+  useEffect(() => {
+    window.history.replaceState(
+      window.history.state,
+      '',
+      shareLinkUrl(window.location.href, { seed, selection: sharedSelection, look })
+    )
+  }, [seed, sharedSelection, look])
+
+  // Open the PFP of a shared link, once
+  const openedSharedLink = useRef(false)
+  useEffect(() => {
+    if (openedSharedLink.current || !SHARED.seed) return
+    openedSharedLink.current = true
+    generatePFP(SHARED.seed, SHARED.selection?.traits, SHARED.selection?.cssBackground ?? null)
+  })
+  const assetPercent = assetProgress?.total ? Math.round((assetProgress.loaded / assetProgress.total) * 100) : 0
+
+  // Download the current PFP's metadata on its own, or zipped together with the PNG
+  const handleDownloadMetadata = () => {
+    if (!currentEntry) return
+    downloadBlob(metadataToBlob(currentEntry.metadata), `${pfpFileBase(currentEntry.seed)}.json`)
   }
 
-  // Function to randomly select a file from a layer
-  const selectRandomFile = (files: string[]): string => {
-    return files[Math.floor(Math.random() * files.length)]
+  const handleDownloadBundle = async () => {
+    if (!currentEntry) return
+    const fileBase = pfpFileBase(currentEntry.seed)
+    const zip = await createZip([
+      { name: `${fileBase}.png`, data: currentEntry.image },
+      { name: `${fileBase}.json`, data: JSON.stringify(currentEntry.metadata, null, 2) },
+    ])
+    downloadBlob(zip, `${fileBase}.zip`)
   }
 
-  // Layer probabilities can be configured here in code
-  // To adjust: change the values in the layerProbabilities state above
+  // Undo/redo keyboard shortcuts step through the history
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isPFPLocked) return
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, select')) return
 
-  // Function to generate the PFP
-  const generatePFP = async () => {
-    if (isLoadingAssets) return // Don't generate while still loading assets
-    
-    setIsGenerating(true)
-    const canvas = canvasRef.current
-    if (!canvas) return
+      const key = event.key.toLowerCase()
+      const isUndo = key === 'z' && !event.shiftKey
+      const isRedo = (key === 'z' && event.shiftKey) || key === 'y'
+      if (!isUndo && !isRedo) return
 
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
+      event.preventDefault()
+      const currentIndex = history.findIndex(entry => entry.id === currentHistoryId)
+      const nextIndex = currentIndex === -1
+        ? history.length - 1
+        : currentIndex + (isUndo ? -1 : 1)
+      const nextEntry = history[nextIndex]
+      if (nextEntry && nextEntry.id !== currentHistoryId) restoreHistoryEntry(nextEntry)
+    }
 
-    // Set canvas size (adjust based on your images)
-    canvas.width = 800
-    canvas.height = 800
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [history, currentHistoryId, isPFPLocked, restoreHistoryEntry])
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
+  // Lock a layer to its current trait, or unlock it so the next run rerolls it
+  const handleToggleLock = (layer: LayerId) => {
+    setLocks(previous => {
+      const next = { ...previous }
+      if (next[layer] !== undefined) {
+        delete next[layer]
+      } else if (selection) {
+        next[layer] = selection.traits[layer]
+      }
+      return next
+    })
+  }
 
-    // Add delay to sync with rotation animation (generation finishes mid-rotation)
-    await new Promise(resolve => setTimeout(resolve, 400))
+  // Captures step the frame loop themselves. Switching it starts the scene clock
+  // over, so it's put back to where it was once the canvas has switched.
+  const handleCapturingChange = (capturing: boolean) => {
+    captureDirector.current.capturing = capturing
+    sceneTimeAtSwitch.current = sceneState.current?.().clock.elapsedTime ?? null
+    setIsCapturing(capturing)
+  }
 
-    // Generate layers in z-index order
-    const layers = ['backgrounds', 'z0', 'z1', 'z2', 'z3', 'z4', 'z5'] as const
+  useLayoutEffect(() => {
+    const getState = sceneState.current
+    if (getState && sceneTimeAtSwitch.current !== null) getState().clock.elapsedTime = sceneTimeAtSwitch.current
+    sceneTimeAtSwitch.current = null
+  }, [isCapturing])
 
-    for (const layerName of layers) {
-      // Get probability (mandatory layers always have 1.0)
-      const probability = layerName === 'z0' || layerName === 'z2' || layerName === 'z5' 
-        ? 1.0 
-        : layerProbabilities[layerName as keyof typeof layerProbabilities]
-      
-      // Check if this layer should be included (based on probability)
-      if (Math.random() <= probability) {
-        
-        if (layerName === 'backgrounds') {
-          // For backgrounds, choose between PNG files and CSS backgrounds
-          const layerFiles = availableFiles[layerName] || []
-          const totalOptions = layerFiles.length + 5 // 5 represents CSS background options
-          const choice = Math.floor(Math.random() * totalOptions)
-          
-          if (choice < layerFiles.length && layerFiles.length > 0) {
-            // Use PNG background
-            const selectedFile = selectRandomFile(layerFiles)
-            const imagePath = `/pfp/${layerName}/${selectedFile}`
-            
-            try {
-              const img = new Image()
-              await new Promise((resolve, reject) => {
-                img.onload = resolve
-                img.onerror = reject
-                img.src = imagePath
-              })
-              
-              // Draw the image on canvas
-              ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
-            } catch (error) {
-              console.error(`Failed to load image: ${imagePath}`, error)
-            }
-          } else {
-            // Use CSS generated background
-            const cssBackground = generateCSSBackground()
-            drawCSSBackground(ctx, cssBackground, canvas.width, canvas.height)
-            console.log(`🎨 Generated ${cssBackground.type} background:`, cssBackground.value)
-          }
-        } else {
-          // For other layers, use PNG files as before
-          const layerFiles = availableFiles[layerName] || []
-          
-          // Skip if no files available for this layer
-          if (layerFiles.length === 0) {
-            console.warn(`No files found for layer: ${layerName}`)
-            continue
-          }
-          
-          const selectedFile = selectRandomFile(layerFiles)
-          const imagePath = `/pfp/${layerName}/${selectedFile}`
-          
-          try {
-            const img = new Image()
-            await new Promise((resolve, reject) => {
-              img.onload = resolve
-              img.onerror = reject
-              img.src = imagePath
-            })
-            
-            // Draw the image on canvas
-            ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
-          } catch (error) {
-            console.error(`Failed to load image: ${imagePath}`, error)
-          }
-        }
+  const captureTarget = (): CaptureTarget | null => sceneState.current && {
+    getState: sceneState.current,
+    view: (scene, camera) => (
+      <>
+        <SceneEnvironment scene={scene} />
+        <PostProcessing scene={scene} camera={camera} pixelation={pixelationEnabled} look={look} />
+      </>
+    ),
+  }
+
+  // Clips move the card from the frame number alone, so they come out the same
+  // however long each frame takes. The spin's new PFP is drawn and its textures
+  // loaded before recording starts, so it lands on the same frame every time.
+  const prepareClip = async (kind: ClipKind): Promise<ClipScript> => {
+    const director = captureDirector.current
+    if (kind === 'turntable') {
+      return {
+        onFrame: (frame, frameCount) => {
+          if (frame === 0) director.card?.settle()
+          // The last frame stops one step short of a full turn, so the clip loops
+          director.turntable = (frame / frameCount) * Math.PI * 2
+        },
+        // Turn the card back to face the front
+        finish: () => {
+          director.turntable = 0
+        },
       }
     }
 
-    // Convert canvas to data URL and set as generated image
-    const dataURL = canvas.toDataURL('image/png')
-    setGeneratedImage(dataURL)
-    setIsGenerating(false)
+    const pfpSeed = generateSeed()
+    const generated = selectTraits(createRng(pfpSeed), availableFiles, {
+      locked: locks,
+      lockedCSSBackground: selection?.cssBackground ?? null,
+    })
+    const drawn = await drawPFP(pfpSeed, generated, locks, explodedEnabled)
+    // With pixel art on, the card shows the baked PFP
+    const shown = pixelArtEnabled
+      ? { ...drawn.face, image: await bakePixelArt(drawn.face.image, pixelArt, PFP_SIZE) }
+      : drawn.face
+    director.prepared = { face: shown, textures: await loadFaceTextures(shown) }
+
+    const imageFrame = Math.round(SPIN_CLIP_LEAD_IN * CLIP_FPS)
+    let isShown = false
+    return {
+      onFrame: async frame => {
+        if (frame === 0) director.card?.settle()
+        const card = director.card
+        if (frame !== imageFrame || !card) return
+        // The spin starts first and the new face comes in during it, like a generation
+        setIsCardSpinning(true)
+        await card.rendered()
+        showPFP(drawn)
+        if (pixelArtEnabled) setPixelPreview({ source: drawn.face, settings: pixelArt, face: shown })
+        isShown = true
+        await card.rendered()
+        await director.silhouette
+      },
+      finish: () => {
+        if (isShown || !director.prepared) return
+        faceTextureList(director.prepared.textures).forEach(texture => textureManager.release(texture))
+        director.prepared = null
+      },
+    }
+  }
+
+  // Pick a trait by hand: it gets locked, and the current PFP is redrawn with
+  // only that layer swapped
+  const handlePickTrait = (layer: LayerId, value: string | null) => {
+    if (!selection) return
+    const nextLocks = { ...locks, [layer]: value }
+    setLocks(nextLocks)
+    generatePFP(seed ?? undefined, { ...selection.traits, ...nextLocks })
   }
 
   return (
@@ -771,6 +1159,7 @@ function App() {
       <div className="fullscreen-canvas">
         <Canvas
           shadows
+          frameloop={isCapturing ? 'never' : 'always'}
           camera={{ position: [3, -2, 7], fov: 50, near: 0.1, far: 1000 }}
           style={{ background: '#000000' }}
         >
@@ -780,13 +1169,21 @@ function App() {
               <meshBasicMaterial color="red" />
             </mesh>
           }>
-            <Scene generatedImage={generatedImage} isGenerating={isGenerating} />
-            <EffectComposer>
-              <Bloom luminanceThreshold={0.5} luminanceSmoothing={0.4} intensity={0.6} />
-              <ToneMapping adaptive={true} resolution={256} />
-              <BrightnessContrast brightness={0.05} contrast={0.1} />
-              {pixelationEnabled ? <Pixelation granularity={6} /> : <></>}
-            </EffectComposer>
+            <Scene
+              face={shownFace}
+              isGenerating={isBusy}
+              transition={transition}
+              finish={resolveFinish(finish, rarity?.tier ?? null)}
+              exploded={explodedEnabled}
+              particles={particleMode}
+              frameConfig={frameConfig}
+              burstColor={rarity?.tier.color}
+              director={captureDirector}
+              onSpinEnd={handleSpinEnd}
+            />
+            {DEBUG && <RendererStatsProbe onSample={setRendererStats} />}
+            <CaptureBridge onReady={handleSceneReady} />
+            <PostProcessing pixelation={pixelationEnabled} look={look} />
           </Suspense>
         </Canvas>
       </div>
@@ -794,15 +1191,89 @@ function App() {
       {/* Floating UI Elements */}
       <div className="floating-ui">
         <h1 className="floating-title">LOLCAT PFP</h1>
+
+        <TraitPanel
+          selection={selection}
+          locks={locks}
+          availableFiles={availableFiles}
+          disabled={isPFPLocked}
+          onToggleLock={handleToggleLock}
+          onPickTrait={handlePickTrait}
+        />
         
+        <HistoryGallery
+          entries={history}
+          currentId={currentHistoryId}
+          disabled={isPFPLocked}
+          onRestore={restoreHistoryEntry}
+          onToggleFavorite={handleToggleFavorite}
+          onDelete={handleDeleteEntry}
+        />
+
         <div className="floating-controls">
           <button 
-            onClick={generatePFP}
-            disabled={isGenerating || isLoadingAssets}
+            onClick={() => generatePFP()}
+            disabled={isPFPLocked}
             className="generate-btn"
           >
-            {isLoadingAssets ? 'Loading Assets...' : isGenerating ? 'Generating...' : 'MOAR PLZ'}
+            {isBusy ? 'Generating...' : 'MOAR PLZ'}
           </button>
+
+          {/* Seed of the current PFP - type one in to reproduce it */}
+          <form
+            className="seed-form"
+            onSubmit={(event) => {
+              event.preventDefault()
+              const typedSeed = seedInput.trim()
+              if (typedSeed) generatePFP(typedSeed)
+            }}
+          >
+            <label className="seed-label" htmlFor="seed-input">SEED</label>
+            <input
+              id="seed-input"
+              className="seed-input"
+              value={seedInput}
+              placeholder={seed ?? 'type a seed'}
+              onChange={(event) => setSeedInput(event.target.value)}
+              spellCheck={false}
+              autoComplete="off"
+            />
+            <button
+              type="submit"
+              className="seed-btn"
+              disabled={isPFPLocked || !seedInput.trim()}
+            >
+              GO
+            </button>
+            <button
+              type="button"
+              className="seed-btn"
+              title="Copy a link to this PFP and look"
+              onClick={handleCopyLink}
+            >
+              {linkCopied ? 'COPIED' : '🔗'}
+            </button>
+          </form>
+
+          {rarity && (
+            <div className="rarity-badge" title="Sum of 1 / trait probability across all layers">
+              RARITY {rarity.score.toFixed(1)} · {rarity.tier.name.toUpperCase()}
+            </div>
+          )}
+
+          {currentEntry && (
+            <div className="download-row">
+              <button className="seed-btn" onClick={handleDownloadMetadata}>⬇ JSON</button>
+              <button className="seed-btn" onClick={handleDownloadBundle}>⬇ PNG + JSON</button>
+              <button className="seed-btn" onClick={() => setShowExportPanel(true)}>⬇ EXPORT</button>
+            </div>
+          )}
+
+          {generationError && (
+            <div className="generation-error" role="alert">
+              {generationError}
+            </div>
+          )}
           
           <button 
             onClick={() => setPixelationEnabled(!pixelationEnabled)}
@@ -810,23 +1281,148 @@ function App() {
           >
             {pixelationEnabled ? 'PIXEL MODE ON' : 'PIXEL MODE OFF'}
           </button>
+
+          <PixelArtPanel
+            enabled={pixelArtEnabled}
+            settings={pixelArt}
+            canExport={cardFace !== null && seed !== null}
+            onToggle={handleTogglePixelArt}
+            onChange={setPixelArt}
+            onExport={handleExportPixelArt}
+          />
+
+          <button 
+            onClick={() => setExplodedEnabled(!explodedEnabled)}
+            className="generate-btn toggle-btn"
+          >
+            {explodedEnabled ? '3D LAYERS ON' : '3D LAYERS OFF'}
+          </button>
+
+          {/* How the card changes from one PFP to the next */}
+          <label className="transition-picker">
+            <span className="seed-label">TRANSITION</span>
+            <select
+              className="transition-select"
+              value={transition}
+              onChange={(event) => {
+                if (isTransitionChoice(event.target.value)) setTransition(event.target.value)
+              }}
+            >
+              {TRANSITIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+              <option value="random">Random</option>
+            </select>
+          </label>
+
+          {/* Card finish - auto picks it from the rarity tier */}
+          <label className="transition-picker">
+            <span className="seed-label">FINISH</span>
+            <select
+              className="transition-select"
+              value={finish}
+              onChange={(event) => {
+                if (isFinishChoice(event.target.value)) setFinish(event.target.value)
+              }}
+            >
+              <option value="auto">Auto (by rarity)</option>
+              {FINISHES.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="transition-picker">
+            <span className="seed-label">PARTICLES</span>
+            <select
+              className="transition-select"
+              value={particleMode}
+              onChange={(event) => {
+                if (isParticleMode(event.target.value)) setParticleMode(event.target.value)
+              }}
+            >
+              {PARTICLE_MODES.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {(particleMode === 'both' || particleMode === 'frame') && (
+            <label className="transition-picker">
+              <span className="seed-label">FRAME</span>
+              <select
+                className="transition-select"
+                value={framePreset}
+                onChange={(event) => {
+                  if (isFramePresetId(event.target.value)) setFramePreset(event.target.value)
+                }}
+              >
+                {PARTICLE_FRAME_PRESETS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {/* Post-processing look, saved and carried in the link */}
+          <LookPanel look={look} onChange={setLook} />
+
+          <button 
+            onClick={() => setShowBatchPanel(!showBatchPanel)}
+            className="generate-btn toggle-btn"
+          >
+            COLLECTION
+          </button>
+
+          <button 
+            onClick={() => setShowCapturePanel(!showCapturePanel)}
+            className="generate-btn toggle-btn"
+            disabled={isCapturing}
+          >
+            CAPTURE
+          </button>
         </div>
 
-        {isLoadingAssets && (
+        {assetProgress && (
           <div className="loading-assets">
-            <p>🔍 Discovering available assets...</p>
+            <p>🐱 Loading traits... {assetPercent}%</p>
             <div className="loading-progress">
-              <div className="loading-bar"></div>
+              <div className="loading-bar" style={{ width: `${assetPercent}%` }} />
             </div>
           </div>
         )}
       </div>
 
-      {/* Hidden canvas for image composition */}
-      <canvas 
-        ref={canvasRef} 
-        style={{ display: 'none' }}
-      />
+      {DEBUG && <RendererStats sample={rendererStats} />}
+
+      {showBatchPanel && (
+        <BatchPanel
+          availableFiles={availableFiles}
+          locks={locks}
+          onClose={() => setShowBatchPanel(false)}
+        />
+      )}
+
+      {showExportPanel && currentEntry && (
+        <ExportPanel
+          seed={currentEntry.seed}
+          selection={currentEntry.selection}
+          availableFiles={availableFiles}
+          manifest={traitManifest}
+          onClose={() => setShowExportPanel(false)}
+        />
+      )}
+
+      {showCapturePanel && (
+        <CapturePanel
+          seed={seed}
+          getTarget={captureTarget}
+          disabled={isBusy}
+          onCapturingChange={handleCapturingChange}
+          prepareClip={prepareClip}
+          onClose={() => setShowCapturePanel(false)}
+        />
+      )}
     </div>
   )
 }
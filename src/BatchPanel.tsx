@@ -0,0 +1,141 @@
+import { useMemo, useRef, useState } from 'react'
+import { planCollection, renderCollection } from './collection'
+import { compositorPool } from './compositorPool'
+import { downloadBlob } from './download'
+import { generateSeed } from './random'
+import type { PartialTraits } from './rules'
+import { countCombinations } from './traits'
+
+interface BatchPanelProps {
+  availableFiles: Record<string, string[]>
+  locks: PartialTraits
+  onClose: () => void
+}
+
+type BatchStatus =
+  | { state: 'idle' }
+  | { state: 'running', done: number, total: number }
+  | { state: 'done', total: number }
+  | { state: 'error', message: string }
+
+const OUTPUT_SIZES = [400, 800]
+
+// Stop counting combinations past this, the exact number no longer matters
+const COMBINATION_COUNT_LIMIT = 1_000_000
+
+// Modal for generating a whole collection of unique PFPs as one ZIP download
+function BatchPanel({ availableFiles, locks, onClose }: BatchPanelProps) {
+  const [size, setSize] = useState(100)
+  const [outputSize, setOutputSize] = useState(400)
+  const [baseSeed, setBaseSeed] = useState(() => generateSeed())
+  const [status, setStatus] = useState<BatchStatus>({ state: 'idle' })
+  const abortRef = useRef<AbortController | null>(null)
+
+  const combinations = useMemo(() => {
+    try {
+      return countCombinations(availableFiles, { locked: locks }, COMBINATION_COUNT_LIMIT)
+    } catch {
+      return 0
+    }
+  }, [availableFiles, locks])
+
+  const isRunning = status.state === 'running'
+  const tooLarge = size > combinations
+
+  const handleGenerate = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    try {
+      // Plan first so an impossible size fails before any rendering starts
+      const items = planCollection(size, baseSeed, availableFiles, locks)
+      setStatus({ state: 'running', done: 0, total: items.length })
+
+      const zip = await renderCollection(items, {
+        outputSize,
+        render: (selection, size, signal) => compositorPool.compose(selection, size, signal),
+        onProgress: (done, total) => setStatus({ state: 'running', done, total }),
+        signal: controller.signal,
+      })
+
+      downloadBlob(zip, `lolcat-collection-${baseSeed}.zip`)
+      setStatus({ state: 'done', total: items.length })
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setStatus({ state: 'idle' })
+      } else {
+        console.error('❌ Collection generation failed:', error)
+        setStatus({ state: 'error', message: error instanceof Error ? error.message : String(error) })
+      }
+    } finally {
+      abortRef.current = null
+    }
+  }
+
+  const percent = status.state === 'running' ? Math.round((status.done / status.total) * 100) : 0
+
+  return (
+    <div className="batch-panel" role="dialog" aria-label="Generate collection">
+      <h2 className="panel-title">COLLECTION</h2>
+
+      <label className="batch-field">
+        <span>Size</span>
+        <input
+          type="number"
+          min={1}
+          value={size}
+          disabled={isRunning}
+          onChange={(event) => setSize(Math.max(1, Math.floor(Number(event.target.value) || 1)))}
+        />
+      </label>
+
+      <label className="batch-field">
+        <span>Base seed</span>
+        <input value={baseSeed} disabled={isRunning} onChange={(event) => setBaseSeed(event.target.value)} />
+      </label>
+
+      <label className="batch-field">
+        <span>Image size</span>
+        <select value={outputSize} disabled={isRunning} onChange={(event) => setOutputSize(Number(event.target.value))}>
+          {OUTPUT_SIZES.map(option => (
+            <option key={option} value={option}>{option}×{option}</option>
+          ))}
+        </select>
+      </label>
+
+      <p className={`batch-note${tooLarge ? ' batch-note-error' : ''}`}>
+        {combinations >= COMBINATION_COUNT_LIMIT
+          ? `More than ${COMBINATION_COUNT_LIMIT.toLocaleString()} distinct combinations available`
+          : `${combinations.toLocaleString()} distinct combinations available`}
+        {Object.keys(locks).length > 0 && ' (with current locks)'}
+      </p>
+
+      {status.state === 'running' && (
+        <div className="batch-progress">
+          <p>{status.done} / {status.total} ({percent}%)</p>
+          <div className="loading-progress">
+            <div className="loading-bar batch-progress-bar" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {status.state === 'done' && <p className="batch-note">✅ {status.total} PFPs exported</p>}
+      {status.state === 'error' && <p className="batch-note batch-note-error">{status.message}</p>}
+
+      <div className="batch-actions">
+        {isRunning ? (
+          <button className="seed-btn" onClick={() => abortRef.current?.abort()}>CANCEL</button>
+        ) : (
+          <>
+            <button className="seed-btn" onClick={handleGenerate} disabled={tooLarge || !baseSeed.trim()}>
+              GENERATE ZIP
+            </button>
+            <button className="seed-btn" onClick={onClose}>CLOSE</button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default BatchPanel
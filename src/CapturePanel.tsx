@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { downloadBlob } from './download'
+import {
+  CAPTURE_RESOLUTIONS,
+  CLIP_KINDS,
+  captureFileName,
+  captureResolution,
+  captureStill,
+  clipDuration,
+  isCaptureResolutionId,
+  isClipKind,
+  recordClip,
+  type CaptureResolutionId,
+  type CaptureTarget,
+  type ClipKind,
+  type ClipScript,
+} from './sceneCapture'
+
+interface CapturePanelProps {
+  seed: string | null
+  // The live scene, null until the canvas is up
+  getTarget: () => CaptureTarget | null
+  // A generation in progress would change the card mid-capture
+  disabled: boolean
+  onCapturingChange: (capturing: boolean) => void
+  // Gets the card ready for a clip and says how it moves frame by frame
+  prepareClip: (kind: ClipKind) => Promise<ClipScript>
+  onClose: () => void
+}
+
+type CaptureStatus =
+  | { state: 'idle' }
+  | { state: 'running', done: number, total: number }
+  | { state: 'done', fileName: string }
+  | { state: 'error', message: string }
+
+// Modal for saving the 3D card scene as a high-res still or a short video
+function CapturePanel({ seed, getTarget, disabled, onCapturingChange, prepareClip, onClose }: CapturePanelProps) {
+  const [mode, setMode] = useState<'still' | 'clip'>('still')
+  const [resolutionId, setResolutionId] = useState<CaptureResolutionId>('square-1080')
+  const [clipKind, setClipKind] = useState<ClipKind>('turntable')
+  const [status, setStatus] = useState<CaptureStatus>({ state: 'idle' })
+
+  const resolution = captureResolution(resolutionId)
+  const fileName = captureFileName(seed, mode === 'still' ? 'card' : clipKind, resolution)
+  const isRunning = status.state === 'running'
+  const percent = status.state === 'running' && status.total > 0 ? Math.round((status.done / status.total) * 100) : 0
+
+  const handleCapture = async () => {
+    const target = getTarget()
+    if (!target) return
+    setStatus({ state: 'running', done: 0, total: 0 })
+    onCapturingChange(true)
+    let script: ClipScript | undefined
+    try {
+      const { width, height } = resolution
+      if (mode === 'clip') script = await prepareClip(clipKind)
+      const capture = mode === 'still'
+        ? await captureStill(target, width, height)
+        : await recordClip(target, {
+          width,
+          height,
+          duration: clipDuration(clipKind),
+          onFrame: script?.onFrame,
+          onProgress: (done, total) => setStatus({ state: 'running', done, total }),
+        })
+      downloadBlob(capture, fileName)
+      setStatus({ state: 'done', fileName })
+    } catch (error) {
+      console.error('❌ Capture failed:', error)
+      setStatus({ state: 'error', message: error instanceof Error ? error.message : String(error) })
+    } finally {
+      script?.finish?.()
+      onCapturingChange(false)
+    }
+  }
+
+  return (
+    <div className="batch-panel" role="dialog" aria-label="Capture scene">
+      <h2 className="panel-title">CAPTURE</h2>
+
+      <label className="batch-field">
+        <span>Capture</span>
+        <select
+          value={mode}
+          disabled={isRunning}
+          onChange={(event) => setMode(event.target.value === 'clip' ? 'clip' : 'still')}
+        >
+          <option value="still">Still (PNG)</option>
+          <option value="clip">Video (WebM)</option>
+        </select>
+      </label>
+
+      <label className="batch-field">
+        <span>Resolution</span>
+        <select
+          value={resolutionId}
+          disabled={isRunning}
+          onChange={(event) => {
+            if (isCaptureResolutionId(event.target.value)) setResolutionId(event.target.value)
+          }}
+        >
+          {CAPTURE_RESOLUTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {mode === 'clip' && (
+        <label className="batch-field">
+          <span>Clip</span>
+          <select
+            value={clipKind}
+            disabled={isRunning}
+            onChange={(event) => {
+              if (isClipKind(event.target.value)) setClipKind(event.target.value)
+            }}
+          >
+            {CLIP_KINDS.map(option => (
+              <option key={option.id} value={option.id}>{option.label} ({option.duration}s)</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {mode === 'clip' && clipKind === 'spin' && (
+        <p className="batch-note">Generates a new PFP for the clip, like MOAR PLZ.</p>
+      )}
+
+      <p className="batch-note export-file-name" title={fileName}>{fileName}</p>
+
+      {status.state === 'running' && mode === 'clip' && (
+        <div className="batch-progress">
+          <p>Recording {status.done} / {status.total} frames ({percent}%)</p>
+          <div className="loading-progress">
+            <div className="loading-bar batch-progress-bar" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {status.state === 'done' && <p className="batch-note">✅ Saved {status.fileName}</p>}
+      {status.state === 'error' && <p className="batch-note batch-note-error">{status.message}</p>}
+
+      <div className="batch-actions">
+        <button className="seed-btn" onClick={handleCapture} disabled={isRunning || disabled}>
+          {isRunning ? 'CAPTURING...' : mode === 'still' ? 'CAPTURE' : 'RECORD'}
+        </button>
+        <button className="seed-btn" onClick={onClose} disabled={isRunning}>CLOSE</button>
+      </div>
+    </div>
+  )
+}
+
+export default CapturePanel
@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { compositorPool } from './compositorPool'
+import { downloadBlob } from './download'
+import {
+  EXPORT_FORMATS,
+  EXPORT_SIZES,
+  exportFileName,
+  exportFormat,
+  isExportFormatId,
+  sourceArtSize,
+  type ExportFormatId,
+} from './exportImage'
+import type { TraitManifest } from './traitManifest'
+import type { GeneratedTraits } from './traits'
+
+interface ExportPanelProps {
+  seed: string
+  selection: GeneratedTraits
+  availableFiles: Record<string, string[]>
+  manifest: TraitManifest
+  onClose: () => void
+}
+
+type ExportStatus =
+  | { state: 'idle' }
+  | { state: 'running' }
+  | { state: 'done', fileName: string }
+  | { state: 'error', message: string }
+
+// Modal for downloading the flat PFP at a chosen size and format
+function ExportPanel({ seed, selection, availableFiles, manifest, onClose }: ExportPanelProps) {
+  const [formatId, setFormatId] = useState<ExportFormatId>('png')
+  const [size, setSize] = useState<number>(1024)
+  const [sharpUpscale, setSharpUpscale] = useState(true)
+  const [status, setStatus] = useState<ExportStatus>({ state: 'idle' })
+
+  const format = exportFormat(formatId)
+  const sourceSize = sourceArtSize(selection, manifest)
+  const upscaled = sourceSize !== null && size > sourceSize
+  const fileName = exportFileName({ seed, selection, availableFiles, size, format })
+  const isRunning = status.state === 'running'
+
+  const handleExport = async () => {
+    setStatus({ state: 'running' })
+    try {
+      const image = await compositorPool.compose(selection, size, undefined, {
+        mimeType: format.mimeType,
+        quality: format.quality,
+        sharpUpscaleFrom: upscaled && sharpUpscale ? sourceSize : undefined,
+      })
+      // Browsers fall back to PNG for formats they can't encode
+      if (image.type !== format.mimeType) {
+        throw new Error(`This browser can't save ${format.label} images`)
+      }
+      downloadBlob(image, fileName)
+      setStatus({ state: 'done', fileName })
+    } catch (error) {
+      console.error('❌ Export failed:', error)
+      setStatus({ state: 'error', message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return (
+    <div className="batch-panel" role="dialog" aria-label="Export PFP">
+      <h2 className="panel-title">EXPORT</h2>
+
+      <label className="batch-field">
+        <span>Format</span>
+        <select
+          value={formatId}
+          disabled={isRunning}
+          onChange={(event) => {
+            if (isExportFormatId(event.target.value)) setFormatId(event.target.value)
+          }}
+        >
+          {EXPORT_FORMATS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="batch-field">
+        <span>Size</span>
+        <select value={size} disabled={isRunning} onChange={(event) => setSize(Number(event.target.value))}>
+          {EXPORT_SIZES.map(option => (
+            <option key={option} value={option}>
+              {option}×{option}{sourceSize !== null && option > sourceSize ? ' (upscaled)' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {upscaled && (
+        <>
+          <p className="batch-note batch-note-warning">
+            ⚠ The trait art is {sourceSize}×{sourceSize}, so this size is upscaled and won't hold more detail.
+          </p>
+          <label className="batch-field">
+            <span>Upscaling</span>
+            <select
+              value={sharpUpscale ? 'sharp' : 'smooth'}
+              disabled={isRunning}
+              onChange={(event) => setSharpUpscale(event.target.value === 'sharp')}
+            >
+              <option value="sharp">Sharp</option>
+              <option value="smooth">Smooth</option>
+            </select>
+          </label>
+        </>
+      )}
+
+      {formatId === 'jpeg' && <p className="batch-note">JPEG has no transparency, see-through parts turn white.</p>}
+
+      <p className="batch-note export-file-name" title={fileName}>{fileName}</p>
+
+      {status.state === 'done' && <p className="batch-note">✅ Saved {status.fileName}</p>}
+      {status.state === 'error' && <p className="batch-note batch-note-error">{status.message}</p>}
+
+      <div className="batch-actions">
+        <button className="seed-btn" onClick={handleExport} disabled={isRunning}>
+          {isRunning ? 'EXPORTING...' : 'DOWNLOAD'}
+        </button>
+        <button className="seed-btn" onClick={onClose}>CLOSE</button>
+      </div>
+    </div>
+  )
+}
+
+export default ExportPanel
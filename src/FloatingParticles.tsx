@@ -0,0 +1,428 @@
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useFrame, extend } from '@react-three/fiber';
+import * as THREE from 'three';
+import { shaderMaterial } from '@react-three/drei';
+import { figureSelection } from './compositor';
+import { compositorPool } from './compositorPool';
+import type { GeneratedTraits } from './traits';
+
+// TypeScript declarations for React Three Fiber custom material
+declare module '@react-three/fiber' {
+  interface ThreeElements {
+    floatingParticleMaterial: {
+      uColor?: THREE.Color;
+      uBurstColor?: THREE.Color;
+      uTime?: number;
+      uLifetime?: number;
+      uPointSize?: number;
+      uBurstIntensity?: number;
+      transparent?: boolean;
+      depthTest?: boolean;
+      depthWrite?: boolean;
+      blending?: THREE.Blending;
+      ref?: React.Ref<THREE.ShaderMaterial>;
+    };
+  }
+}
+
+/**
+ * LOLCAT PFP FLOATING PARTICLES - Forcefield Enhancement
+ * ======================================================
+ *
+ * Particles that drift off the face of the PFP card, spawned from the cat's
+ * silhouette, and get pushed away by the pointer like a forcefield.
+ *
+ * Features:
+ * - GPU-accelerated particle rendering with custom shaders
+ * - Particle lifecycle management with respawning
+ * - Pointer forcefield that displaces particles as they respawn
+ * - A flash in the PFP's rarity color whenever a new PFP lands
+ * - Follows the card's full transform, so the particles turn with it
+ */
+
+const PARTICLE_LIFETIME = 4;    // Particle respawn cycle (seconds)
+const PARTICLE_SPEED = 0.3;     // Base velocity away from the card face
+
+const DEFAULT_NUM_PARTICLES = 3000;
+
+const CARD_FACE_SIZE = 3.2;     // Size of the PFP on the card
+const FACE_Z = 0.1;             // Just in front of the card face
+const SILHOUETTE_SIZE = 128;    // Resolution the silhouette is sampled at
+const ALPHA_THRESHOLD = 128;    // Pixels at least this opaque belong to the cat
+
+const BURST_DURATION = 1.5;     // Seconds a new-PFP flash takes to fade
+
+export interface ForcefieldConfig {
+  radius: number;               // Reach of the forcefield around the pointer
+  strength: number;             // Displacement at the pointer
+}
+
+const DEFAULT_FORCEFIELD: ForcefieldConfig = {
+  radius: 0.8,
+  strength: 0.4,
+};
+
+/**
+ * CUSTOM PARTICLE MATERIAL - GPU Shader System
+ *
+ * Creates custom shader material for the floating particles with:
+ * - Vertex shader: movement from the (pre-displaced) spawn position
+ * - Fragment shader: color and transparency based on lifecycle and bursts
+ */
+const FloatingParticleMaterial = shaderMaterial(
+  {
+    uColor: new THREE.Color(0xffd1e3),          // Soft lolcat pink
+    uBurstColor: new THREE.Color(0xffffff),     // Flash color of a new PFP
+    uTime: 0,                                   // Global animation time
+    uLifetime: PARTICLE_LIFETIME,               // Respawn cycle time
+    uPointSize: 2.5,                            // Point size in pixels
+    uBurstIntensity: 0.0                        // 0-1 flash strength
+  },
+
+  // Vertex shader: simple movement based on pre-displaced positions
+  `
+    attribute vec3 velocity;
+    attribute float lifetime;
+    varying float vLifetime;
+
+    uniform float uTime;
+    uniform float uLifetime;
+    uniform float uPointSize;
+
+    void main() {
+      float t = mod(uTime - lifetime, uLifetime);
+      vec3 animatedPos = position + velocity * t;
+      vLifetime = 1.0 - (t / uLifetime);
+      vLifetime = pow(vLifetime, 2.0);
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(animatedPos, 1.0);
+      gl_PointSize = uPointSize;
+    }
+  `,
+
+  // Fragment shader: applies color and transparency with the burst flash
+  `
+    uniform vec3 uColor;                // Base color
+    uniform vec3 uBurstColor;           // Flash color
+    uniform float uBurstIntensity;      // 0-1 flash strength
+    varying float vLifetime;            // Age-based alpha from vertex shader
+
+    void main() {
+      vec3 finalColor = uColor;
+      float alpha = vLifetime * 0.6;
+
+      if (uBurstIntensity > 0.0) {
+        // Mix towards the flash color
+        finalColor = mix(uColor, uBurstColor, uBurstIntensity);
+
+        // Extra brightness for the start of the flash
+        if (uBurstIntensity > 0.3) {
+          float brightness = (uBurstIntensity - 0.3) * 1.5;
+          finalColor += uBurstColor * brightness * 0.7;
+        }
+
+        // More visible particles while flashing
+        alpha *= (1.0 + uBurstIntensity * 0.8);
+      }
+
+      gl_FragColor = vec4(finalColor, alpha);
+    }
+  `
+);
+
+extend({ FloatingParticleMaterial });
+
+/**
+ * Spawn points spread evenly over the card face
+ */
+function sampleCardFace(numParticles: number) {
+  const positions = new Float32Array(numParticles * 3);
+  for (let i = 0; i < numParticles; i++) {
+    const i3 = i * 3;
+    positions[i3] = (Math.random() - 0.5) * CARD_FACE_SIZE;
+    positions[i3 + 1] = (Math.random() - 0.5) * CARD_FACE_SIZE;
+    positions[i3 + 2] = FACE_Z;
+  }
+  return positions;
+}
+
+/**
+ * Spawn points on the opaque pixels of a PFP drawn without its background,
+ * or null when there's nothing to sample
+ */
+function sampleSilhouette(image: ImageBitmap, numParticles: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = SILHOUETTE_SIZE;
+  canvas.height = SILHOUETTE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(image, 0, 0, SILHOUETTE_SIZE, SILHOUETTE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SILHOUETTE_SIZE, SILHOUETTE_SIZE);
+
+  const opaque: number[] = [];
+  for (let pixel = 0; pixel < SILHOUETTE_SIZE * SILHOUETTE_SIZE; pixel++) {
+    if (data[pixel * 4 + 3] >= ALPHA_THRESHOLD) opaque.push(pixel);
+  }
+  if (opaque.length === 0) return null;
+
+  const positions = new Float32Array(numParticles * 3);
+  for (let i = 0; i < numParticles; i++) {
+    const i3 = i * 3;
+    const pixel = opaque[Math.floor(Math.random() * opaque.length)];
+    // Jitter within the pixel so the particles don't line up on a grid
+    const u = (pixel % SILHOUETTE_SIZE + Math.random()) / SILHOUETTE_SIZE;
+    const v = (Math.floor(pixel / SILHOUETTE_SIZE) + Math.random()) / SILHOUETTE_SIZE;
+    positions[i3] = (u - 0.5) * CARD_FACE_SIZE;
+    positions[i3 + 1] = (0.5 - v) * CARD_FACE_SIZE;
+    positions[i3 + 2] = FACE_Z;
+  }
+  return positions;
+}
+
+/**
+ * Per-particle velocities and lifecycle offsets
+ */
+function generateParticleData(numParticles: number) {
+  const positions = sampleCardFace(numParticles);
+  const velocities = new Float32Array(numParticles * 3);
+  const lifetimes = new Float32Array(numParticles);
+
+  for (let i = 0; i < numParticles; i++) {
+    const i3 = i * 3;
+
+    velocities[i3] = (Math.random() - 0.5) * 0.2;
+    velocities[i3 + 1] = (Math.random() - 0.5) * 0.2;
+    velocities[i3 + 2] = (Math.random() * PARTICLE_SPEED + 0.2);
+
+    lifetimes[i] = Math.random() * PARTICLE_LIFETIME;
+  }
+
+  return {
+    positions,
+    velocities,
+    lifetimes
+  };
+}
+
+function fmod(a: number, b: number) {
+  return ((a % b) + b) % b;
+}
+
+interface FloatingParticlesProps {
+  cardRef: React.RefObject<THREE.Group>;
+  // PFP whose silhouette the particles spawn from (the whole card face without one)
+  selection: GeneratedTraits | null;
+  // Flash color for a new PFP
+  burstColor?: string;
+  forcefield?: ForcefieldConfig;
+  numParticles?: number;
+  // While this returns true the pointer is left out and the forcefield is off, e.g. during a capture
+  ignorePointer?: () => boolean;
+  // Handed the sampling of each new silhouette as it starts, for captures that wait on it
+  onSampling?: (sampled: Promise<void>) => void;
+}
+
+function FloatingParticles({
+  cardRef,
+  selection,
+  burstColor = '#ffffff',
+  forcefield = DEFAULT_FORCEFIELD,
+  numParticles = DEFAULT_NUM_PARTICLES,
+  ignorePointer,
+  onSampling
+}: FloatingParticlesProps) {
+  const materialRef = useRef<THREE.ShaderMaterial | null>(null);
+  const geometryRef = useRef<THREE.BufferGeometry | null>(null);
+  const pointsRef = useRef<THREE.Points | null>(null);
+
+  // Buffers are made once; a new silhouette only changes where particles respawn,
+  // so the old shape dissolves into the new one over one lifetime
+  const particleData = useMemo(() => generateParticleData(numParticles), [numParticles]);
+  const spawnPositionsRef = useRef<Float32Array>(particleData.positions);
+
+  // Pointer forcefield: a delayed pointer position on the card plane, and a
+  // strength that builds up while the pointer moves and dies down when it rests
+  const mouseRef = useRef(new THREE.Vector3(1e10, 1e10, 1e10));
+  const lastPointerRef = useRef(new THREE.Vector2());
+  const strengthRef = useRef(0);
+  const lastTimeRef = useRef(0);
+  const burstStartRef = useRef<number | null>(null);
+  const helpers = useMemo(() => ({
+    plane: new THREE.Plane(),
+    normal: new THREE.Vector3(0, 0, 1),
+    hit: new THREE.Vector3(),
+  }), []);
+
+  // Sample the silhouette of each new PFP
+  useEffect(() => {
+    if (!selection) {
+      spawnPositionsRef.current = sampleCardFace(numParticles);
+      return;
+    }
+
+    let cancelled = false;
+    const sampled = compositorPool.compose(figureSelection(selection), SILHOUETTE_SIZE)
+      .then(blob => createImageBitmap(blob))
+      .then(bitmap => {
+        const positions = sampleSilhouette(bitmap, numParticles);
+        bitmap.close();
+        if (cancelled) return;
+        spawnPositionsRef.current = positions ?? sampleCardFace(numParticles);
+        burstStartRef.current = lastTimeRef.current;
+      })
+      .catch(error => console.error('❌ Could not sample PFP silhouette:', error));
+    onSampling?.(sampled);
+    return () => {
+      cancelled = true;
+    };
+  }, [selection, numParticles, onSampling]);
+
+  useEffect(() => {
+    materialRef.current?.uniforms.uBurstColor.value.set(burstColor);
+  }, [burstColor]);
+
+  useFrame((state) => {
+    if (!materialRef.current || !pointsRef.current || !cardRef.current) return;
+    const globalTime = state.clock.getElapsedTime();
+    const delta = globalTime - lastTimeRef.current;
+    lastTimeRef.current = globalTime;
+
+    materialRef.current.uniforms.uTime.value = globalTime;
+
+    // Follow the card, rotation included, so particles leave from the PFP itself
+    const points = pointsRef.current;
+    points.position.copy(cardRef.current.position);
+    points.quaternion.copy(cardRef.current.quaternion);
+    points.updateMatrixWorld();
+
+    // Burst flash fades out after a new PFP
+    const burstElapsed = burstStartRef.current === null ? Infinity : globalTime - burstStartRef.current;
+    materialRef.current.uniforms.uBurstIntensity.value = Math.max(0, 1 - burstElapsed / BURST_DURATION);
+    if (burstElapsed >= BURST_DURATION) burstStartRef.current = null;
+
+    // Where the pointer meets the card plane, in the particles' space
+    helpers.plane.set(helpers.normal, 0).applyMatrix4(points.matrixWorld);
+    state.raycaster.setFromCamera(state.pointer, state.camera);
+    const hit = state.raycaster.ray.intersectPlane(helpers.plane, helpers.hit);
+    const moved = !lastPointerRef.current.equals(state.pointer);
+    lastPointerRef.current.copy(state.pointer);
+
+    const easing = 1 - Math.exp(-delta * 8);
+    if (ignorePointer?.()) {
+      strengthRef.current = 0;
+    } else {
+      if (hit) {
+        const localHit = points.worldToLocal(hit);
+        // Jump straight to the pointer when the field was off, trail it otherwise
+        if (strengthRef.current < 1e-3) mouseRef.current.copy(localHit);
+        else mouseRef.current.lerp(localHit, easing);
+      }
+      const targetStrength = hit && moved ? forcefield.strength : 0;
+      const strengthEasing = targetStrength > strengthRef.current ? easing : 1 - Math.exp(-delta);
+      strengthRef.current += (targetStrength - strengthRef.current) * strengthEasing;
+    }
+
+    // Update only particles that just respawned this frame
+    if (geometryRef.current) {
+      const posAttr = geometryRef.current.attributes.position;
+      const positions = posAttr.array;
+      const spawnPositions = spawnPositionsRef.current;
+      const lifetimesArr = particleData.lifetimes;
+      const localMouse = mouseRef.current;
+      const radius = forcefield.radius;
+      const strengthBase = strengthRef.current;
+
+      for (let i = 0; i < lifetimesArr.length; i++) {
+        // age of particle
+        const age = fmod(globalTime - lifetimesArr[i], PARTICLE_LIFETIME);
+        if (age < delta) {
+          // respawn this particle at displaced position
+          const idx = i * 3;
+          const ox = spawnPositions[idx];
+          const oy = spawnPositions[idx + 1];
+          const oz = spawnPositions[idx + 2];
+
+          // displacement
+          const dx = ox - localMouse.x;
+          const dy = oy - localMouse.y;
+          const dz = oz - localMouse.z;
+          const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+          let nx = ox;
+          let ny = oy;
+          let nz = oz;
+          if (dist < radius && dist > 1e-6 && strengthBase > 0) {
+            // Dynamic multi-layered randomness for natural forcefield fluctuations
+            const time = globalTime * 0.3;
+
+            // Primary noise: spatial variation based on position
+            const spatialNoise = Math.sin(ox * 8.314 + oy * 5.926 + oz * 7.847 + time * 0.7) * 0.5 + 0.5;
+
+            // Secondary noise: temporal variation
+            const temporalNoise = Math.sin(time * 1.2 + ox * 3.141 + oy * 2.718) * 0.5 + 0.5;
+
+            // Tertiary noise: fine detail variation
+            const detailNoise = Math.sin(ox * 23.456 + oy * 17.321 + oz * 11.789 + time * 2.1) * 0.5 + 0.5;
+
+            // Directional variation: creates asymmetric displacement
+            const dirNoise = Math.sin(Math.atan2(dy, dx) * 4.0 + time * 0.8) * 0.5 + 0.5;
+
+            // Combine noise layers with different weights
+            const combinedNoise =
+              spatialNoise * 0.4 +
+              temporalNoise * 0.3 +
+              detailNoise * 0.2 +
+              dirNoise * 0.1;
+
+            // Scale to a more dramatic range for visible variation
+            const randomFactor = combinedNoise * 0.7 + 0.3; // Range: 0.3 to 1.0
+
+            const force = Math.pow(1 - dist / radius, 2);
+            const displacement = strengthBase * force * randomFactor;
+            const inv = 1.0 / dist;
+            nx += dx * inv * displacement;
+            ny += dy * inv * displacement;
+            nz += dz * inv * displacement;
+          }
+
+          positions[idx] = nx;
+          positions[idx + 1] = ny;
+          positions[idx + 2] = nz;
+        }
+      }
+      posAttr.needsUpdate = true;
+    }
+  });
+
+  return (
+    <points ref={pointsRef}>
+      <bufferGeometry ref={geometryRef}>
+        {/* Particle positions */}
+        <bufferAttribute
+          attach="attributes-position"
+          args={[particleData.positions, 3]}
+        />
+        {/* Particle velocities */}
+        <bufferAttribute
+          attach="attributes-velocity"
+          args={[particleData.velocities, 3]}
+        />
+        {/* Particle lifecycle offsets */}
+        <bufferAttribute
+          attach="attributes-lifetime"
+          args={[particleData.lifetimes, 1]}
+        />
+      </bufferGeometry>
+
+      <floatingParticleMaterial
+        ref={materialRef}
+        transparent
+        depthTest={true}
+        depthWrite={false}
+        uLifetime={PARTICLE_LIFETIME}
+      />
+    </points>
+  );
+}
+
+export default FloatingParticles;
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react'
+import type { HistoryEntry } from './history'
+
+interface HistoryGalleryProps {
+  entries: HistoryEntry[]
+  currentId: string | null
+  disabled: boolean
+  onRestore: (entry: HistoryEntry) => void
+  onToggleFavorite: (entry: HistoryEntry) => void
+  onDelete: (entry: HistoryEntry) => void
+}
+
+// Thumbnail backed by an object URL that is released when the image goes away
+function HistoryThumbnail({ image, alt }: { image: Blob, alt: string }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    const objectURL = URL.createObjectURL(image)
+    setUrl(objectURL)
+    return () => URL.revokeObjectURL(objectURL)
+  }, [image])
+
+  return url ? <img src={url} alt={alt} className="history-thumbnail" /> : null
+}
+
+// Strip of every generated PFP, newest first
+function HistoryGallery({ entries, currentId, disabled, onRestore, onToggleFavorite, onDelete }: HistoryGalleryProps) {
+  const [favoritesOnly, setFavoritesOnly] = useState(false)
+
+  const visibleEntries = entries
+    .filter(entry => !favoritesOnly || entry.favorite)
+    .slice()
+    .reverse()
+
+  return (
+    <div className="history-gallery">
+      <div className="history-header">
+        <h2 className="panel-title">HISTORY ({entries.length})</h2>
+        <button
+          className={`history-filter${favoritesOnly ? ' history-filter-active' : ''}`}
+          onClick={() => setFavoritesOnly(!favoritesOnly)}
+          title="Show favorites only"
+        >
+          ★
+        </button>
+      </div>
+
+      <div className="history-list">
+        {visibleEntries.length === 0 && (
+          <p className="history-empty">{favoritesOnly ? 'No favorites yet' : 'Nothing generated yet'}</p>
+        )}
+
+        {visibleEntries.map(entry => (
+          <div
+            key={entry.id}
+            className={`history-item${entry.id === currentId ? ' history-item-current' : ''}`}
+          >
+            <button
+              className="history-restore"
+              onClick={() => onRestore(entry)}
+              disabled={disabled}
+              title={`Seed ${entry.seed} · ${new Date(entry.createdAt).toLocaleString()}`}
+            >
+              <HistoryThumbnail image={entry.image} alt={`PFP ${entry.seed}`} />
+            </button>
+            <button
+              className={`history-favorite${entry.favorite ? ' history-favorite-active' : ''}`}
+              onClick={() => onToggleFavorite(entry)}
+              title={entry.favorite ? 'Unfavorite' : 'Favorite'}
+            >
+              ★
+            </button>
+            <button
+              className="history-delete"
+              onClick={() => onDelete(entry)}
+              disabled={disabled}
+              title="Delete"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <p className="history-hint">Ctrl+Z / Ctrl+Shift+Z to step through</p>
+    </div>
+  )
+}
+
+export default HistoryGallery
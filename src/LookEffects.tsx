@@ -0,0 +1,48 @@
+import * as THREE from 'three'
+import { ChromaticAberration, DotScreen, Glitch, HueSaturation, Noise, Scanline, Vignette } from '@react-three/postprocessing'
+import { CrtCurvature } from './crtCurvature'
+import type { LookSettings } from './looks'
+
+// Screen effects of a look, placed inside the EffectComposer after the base effects
+function LookEffects({ look }: { look: LookSettings }) {
+  const { params } = look
+
+  switch (look.id) {
+    case 'crt':
+      return (
+        <>
+          <Scanline density={params.density} opacity={params.scanlineStrength} />
+          <Vignette offset={0.3} darkness={params.vignette} />
+          <CrtCurvature curvature={params.curvature} />
+        </>
+      )
+    case 'glitch':
+      return (
+        <>
+          <ChromaticAberration
+            offset={new THREE.Vector2(params.aberration, params.aberration * 0.5)}
+            radialModulation={false}
+            modulationOffset={0}
+          />
+          <Glitch
+            delay={new THREE.Vector2(params.interval * 0.5, params.interval * 1.5)}
+            duration={new THREE.Vector2(0.1, 0.4)}
+            strength={new THREE.Vector2(params.strength * 0.3, params.strength)}
+          />
+        </>
+      )
+    case 'halftone':
+      return <DotScreen scale={params.scale} angle={THREE.MathUtils.degToRad(params.angle)} />
+    case 'vaporwave':
+      return (
+        <>
+          <HueSaturation hue={THREE.MathUtils.degToRad(params.hue)} saturation={params.saturation} />
+          <Noise opacity={params.noise} premultiply />
+        </>
+      )
+    case 'clean':
+      return null
+  }
+}
+
+export default LookEffects
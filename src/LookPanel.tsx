@@ -0,0 +1,58 @@
+import { LOOKS, defaultLookSettings, isLookId, lookParams, type LookSettings } from './looks'
+
+interface LookPanelProps {
+  look: LookSettings
+  onChange: (look: LookSettings) => void
+}
+
+// Number of decimals a slider's step shows with
+function stepDecimals(step: number): number {
+  return step >= 1 ? 0 : Math.ceil(-Math.log10(step))
+}
+
+// Picker for the post-processing look, with a slider per parameter
+function LookPanel({ look, onChange }: LookPanelProps) {
+  const params = lookParams(look.id)
+
+  return (
+    <div className="look-panel">
+      <label className="look-picker">
+        <span className="seed-label">LOOK</span>
+        <select
+          className="transition-select"
+          value={look.id}
+          onChange={(event) => {
+            if (isLookId(event.target.value)) onChange(defaultLookSettings(event.target.value))
+          }}
+        >
+          {LOOKS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {params.map(param => (
+        <label key={param.id} className="look-param">
+          <span>{param.label}</span>
+          <input
+            type="range"
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            value={look.params[param.id]}
+            onChange={(event) => onChange({ ...look, params: { ...look.params, [param.id]: Number(event.target.value) } })}
+          />
+          <output>{look.params[param.id].toFixed(stepDecimals(param.step))}</output>
+        </label>
+      ))}
+
+      {params.length > 0 && (
+        <button className="look-reset" onClick={() => onChange(defaultLookSettings(look.id))}>
+          RESET
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default LookPanel
@@ -1,7 +1,17 @@
-import React, { useRef, useMemo } from 'react';
-import { useFrame, extend } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useFrame, useThree, extend } from '@react-three/fiber';
 import * as THREE from 'three';
 import { shaderMaterial } from '@react-three/drei';
+import {
+  DEFAULT_FRAME_PRESET,
+  EMISSION_DIRECTIONS,
+  PARTICLE_SPRITES,
+  framePoint,
+  framePresetConfig,
+  type FrameShape,
+  type ParticleFrameConfig,
+} from './frameConfig';
+import { DEFAULT_THEME } from './palette';
 
 // TypeScript declarations for React Three Fiber custom material
 declare module '@react-three/fiber' {
@@ -16,6 +26,11 @@ declare module '@react-three/fiber' {
       uGenerationIntensity?: number;
       uBurstTime?: number;
       uBurstActive?: number;
+      uSpeed?: number;
+      uDirection?: THREE.Vector4;
+      uSpriteFrom?: number;
+      uSpriteTo?: number;
+      uSpriteMix?: number;
       transparent?: boolean;
       depthTest?: boolean;
       blending?: THREE.Blending;
@@ -35,12 +50,13 @@ declare module '@react-three/fiber' {
  * - GPU-accelerated particle rendering with custom shaders
  * - Particle lifecycle management with respawning
  * - Synchronized movement with PFP card rotations and floating
- * - Frame-shaped particle distribution
+ * - Configurable frame shape, sprite, emission and palette (see frameConfig.ts)
+ * - Config changes blend in smoothly, without rebuilding any buffers
  */
 
 const PARTICLE_LIFETIME = 6;    // Particle respawn cycle (seconds)
-const FRAME_SIZE = 3.4;         // Frame size (slightly larger than 3.4 card)
 const FRAME_THICKNESS = 0.1;    // How thick the frame border is
+const BLEND_RATE = 3;           // How quickly config changes blend in (per second)
 
 const DEFAULT_NUM_PARTICLES = 2000;
 
@@ -61,7 +77,12 @@ const FrameParticleMaterial = shaderMaterial(
     uIsGenerating: 0.0,                        // 0 or 1 for generation state
     uGenerationIntensity: 0.0,                  // Animation intensity during generation
     uBurstTime: 0.0,                           // Time when burst started
-    uBurstActive: 0.0                          // 0 or 1 for burst state
+    uBurstActive: 0.0,                         // 0 or 1 for burst state
+    uSpeed: 0.4,                               // Emission speed
+    uDirection: new THREE.Vector4(1, 0, 0, 0), // Weights of outward, inward, up, swirl
+    uSpriteFrom: 0.0,                          // Sprite fading out (index into PARTICLE_SPRITES)
+    uSpriteTo: 0.0,                            // Sprite fading in
+    uSpriteMix: 1.0                            // 0-1 progress between the two
   },
   
   // Vertex shader: continuous particle emission independent of card state
@@ -80,6 +101,17 @@ const FrameParticleMaterial = shaderMaterial(
     uniform float uGenerationIntensity;
     uniform float uBurstTime; // Time when burst started
     uniform float uBurstActive; // 0 or 1 for burst state
+    uniform float uSpeed;
+    uniform vec4 uDirection;
+
+    // Blend of the emission directions, seen from the particle's spawn point
+    vec3 emissionDirection(vec3 spawn) {
+      vec2 radial = length(spawn.xy) > 0.0001 ? normalize(spawn.xy) : vec2(0.0, 1.0);
+      return vec3(radial, 0.0) * uDirection.x
+        + vec3(-radial, 0.0) * uDirection.y
+        + vec3(0.0, 1.0, 0.0) * uDirection.z
+        + vec3(-radial.y, radial.x, 0.0) * uDirection.w;
+    }
 
     void main() {
       float t = mod(uTime - lifetime, uLifetime);
@@ -120,7 +152,7 @@ const FrameParticleMaterial = shaderMaterial(
         vIsBurst = 1.0;
       } else {
         // NORMAL PARTICLES: Continue their natural lifecycle
-        animatedPos = position + velocity * t;
+        animatedPos = position + (emissionDirection(position) * uSpeed + velocity) * t;
         
         // Add continuous gentle motion
         animatedPos.y += sin(uTime * 0.8 + framePosition * 6.28) * 0.1;
@@ -155,18 +187,40 @@ const FrameParticleMaterial = shaderMaterial(
     uniform float uTime;
     uniform float uIsGenerating;
     uniform float uGenerationIntensity;
+    uniform float uSpriteFrom;
+    uniform float uSpriteTo;
+    uniform float uSpriteMix;
     varying float vLifetime;
     varying float vFramePosition;
     varying float vIsBurst;
 
+    // Coverage of a sprite at p (-0.5..0.5 across the point), in PARTICLE_SPRITES order
+    float spriteMask(float sprite, vec2 p) {
+      if (sprite < 0.5) {
+        // Square
+        return step(max(abs(p.x), abs(p.y)), 0.5);
+      } else if (sprite < 1.5) {
+        // Soft circle
+        return 1.0 - smoothstep(0.15, 0.5, length(p));
+      } else if (sprite < 2.5) {
+        // Heart
+        vec2 h = vec2(p.x, p.y + 0.05) * 2.6;
+        float a = h.x * h.x + h.y * h.y - 1.0;
+        return step(a * a * a - h.x * h.x * h.y * h.y * h.y, 0.0);
+      } else {
+        // Sparkle: a four-pointed glint
+        float glint = 0.015 / (abs(p.x * p.y) + 0.015);
+        return clamp(glint * (1.0 - smoothstep(0.25, 0.5, length(p))), 0.0, 1.0);
+      }
+    }
+
     void main() {
-      // Create square particle shape
-      vec2 center = gl_PointCoord - 0.5;
-      float dist = max(abs(center.x), abs(center.y));
-      if (dist > 0.5) discard;
+      // gl_PointCoord runs top to bottom, flip it so sprites stand upright
+      vec2 center = vec2(gl_PointCoord.x, 1.0 - gl_PointCoord.y) - 0.5;
+      float mask = mix(spriteMask(uSpriteFrom, center), spriteMask(uSpriteTo, center), uSpriteMix);
+      if (mask < 0.01) discard;
       
-      // Smooth square falloff
-      float alpha = vLifetime * 0.8;
+      float alpha = vLifetime * 0.8 * mask;
       
       // Base color mixing
       float colorMix = sin(vFramePosition * 6.28 + uTime * 0.5) * 0.5 + 0.5;
@@ -199,89 +253,56 @@ const FrameParticleMaterial = shaderMaterial(
 extend({ FrameParticleMaterial });
 
 /**
- * Generate frame-shaped particle positions
+ * Spawn positions on the frame outline. Each particle keeps its spot along the
+ * perimeter (framePosition) whatever the shape, plus a little random offset
+ * within the frame thickness.
  */
-function generateFrameGeometry(numParticles: number) {
-  const positions = new Float32Array(numParticles * 3);
-  const originalPositions = new Float32Array(numParticles * 3);
-  const velocities = new Float32Array(numParticles * 3);
-  const lifetimes = new Float32Array(numParticles);
-  const framePositions = new Float32Array(numParticles);
-  
-  const halfSize = FRAME_SIZE / 2;
+function shapePositions(shape: FrameShape, framePositions: Float32Array) {
+  const positions = new Float32Array(framePositions.length * 3);
 
-  const radialSpeed = 0.4;
-  const upwardSpeed = 0;
-
-  for (let i = 0; i < numParticles; i++) {
+  for (let i = 0; i < framePositions.length; i++) {
     const i3 = i * 3;
-    
-    // Distribute particles around frame perimeter
-    const t = i / numParticles;
-    framePositions[i] = t;
-    
-    // Create frame pattern - distribute along the four sides
-    const side = Math.floor(t * 4); // 0-3 for each side
-    const sideT = (t * 4) % 1; // 0-1 position along current side
-    
-    let x, y;
-    switch (side) {
-      case 0: // Top edge
-        x = -halfSize + sideT * FRAME_SIZE;
-        y = halfSize;
-        break;
-      case 1: // Right edge
-        x = halfSize;
-        y = halfSize - sideT * FRAME_SIZE;
-        break;
-      case 2: // Bottom edge
-        x = halfSize - sideT * FRAME_SIZE;
-        y = -halfSize;
-        break;
-      case 3: // Left edge
-        x = -halfSize;
-        y = -halfSize + sideT * FRAME_SIZE;
-        break;
-      default:
-        x = 0;
-        y = 0;
-    }
-    
+    let [x, y] = framePoint(shape, framePositions[i]);
+
     // Add some random offset within frame thickness
     const offsetDirection = Math.random() * Math.PI * 2;
     const offsetDistance = Math.random() * FRAME_THICKNESS;
     x += Math.cos(offsetDirection) * offsetDistance;
     y += Math.sin(offsetDirection) * offsetDistance;
-    
+
     positions[i3] = x;
     positions[i3 + 1] = y;
     positions[i3 + 2] = (Math.random() - 0.5) * 0.05; // small z random for depth
+  }
+
+  return positions;
+}
+
+/**
+ * Generate the particle buffers. Emission direction and speed come from uniforms,
+ * so the velocities here are only each particle's random drift.
+ */
+function generateFrameGeometry(numParticles: number, shape: FrameShape) {
+  const velocities = new Float32Array(numParticles * 3);
+  const lifetimes = new Float32Array(numParticles);
+  const framePositions = new Float32Array(numParticles);
 
-    originalPositions[i3] = positions[i3];
-    originalPositions[i3 + 1] = positions[i3 + 1];
-    originalPositions[i3 + 2] = positions[i3 + 2];
+  for (let i = 0; i < numParticles; i++) {
+    const i3 = i * 3;
     
-    // Compute radial velocity
-    const posVec = new THREE.Vector3(x, y, 0);
-    const radialDir = posVec.clone().normalize();
-    const radialVel = radialDir.multiplyScalar(radialSpeed);
-    const velocityVec = radialVel.add(new THREE.Vector3(
-      (Math.random() - 0.5) * 0.05,
-      upwardSpeed + (Math.random() - 0.5) * 0.1,
-      (Math.random() - 0.5) * 0.05
-    ));
+    // Distribute particles around frame perimeter
+    framePositions[i] = i / numParticles;
 
-    velocities[i3] = velocityVec.x;
-    velocities[i3 + 1] = velocityVec.y;
-    velocities[i3 + 2] = velocityVec.z;
+    velocities[i3] = (Math.random() - 0.5) * 0.05;
+    velocities[i3 + 1] = (Math.random() - 0.5) * 0.1;
+    velocities[i3 + 2] = (Math.random() - 0.5) * 0.05;
     
     // Random lifetime offsets for staggered respawning
     lifetimes[i] = Math.random() * PARTICLE_LIFETIME;
   }
   
   return {
-    positions,
-    originalPositions,
+    positions: shapePositions(shape, framePositions),
     velocities,
     lifetimes,
     framePositions
@@ -292,21 +313,63 @@ function fmod(a: number, b: number) {
   return ((a % b) + b) % b;
 }
 
+// One-hot weights of an emission direction, matching uDirection
+function directionWeights(config: ParticleFrameConfig) {
+  const weights = [0, 0, 0, 0];
+  weights[EMISSION_DIRECTIONS.indexOf(config.direction)] = 1;
+  return new THREE.Vector4(...weights);
+}
+
 interface ParticleFrameProps {
   cardRef: React.RefObject<THREE.Group>;
   isGenerating: boolean;
   numParticles?: number;
+  config?: ParticleFrameConfig;
+  /** Live theme colors followed when the config's palette is 'pfp'. */
+  themeColors?: { primary: THREE.Color; secondary: THREE.Color };
 }
 
-function ParticleFrame({ cardRef, isGenerating, numParticles = DEFAULT_NUM_PARTICLES }: ParticleFrameProps) {
+const DEFAULT_CONFIG = framePresetConfig(DEFAULT_FRAME_PRESET);
+const DEFAULT_THEME_COLORS = {
+  primary: new THREE.Color(DEFAULT_THEME.primary),
+  secondary: new THREE.Color(DEFAULT_THEME.secondary),
+};
+
+function ParticleFrame({
+  cardRef,
+  isGenerating,
+  numParticles = DEFAULT_NUM_PARTICLES,
+  config = DEFAULT_CONFIG,
+  themeColors = DEFAULT_THEME_COLORS,
+}: ParticleFrameProps) {
   const materialRef = useRef<THREE.ShaderMaterial | null>(null);
   const geometryRef = useRef<THREE.BufferGeometry | null>(null);
   const pointsRef = useRef<THREE.Points | null>(null);
+  const clock = useThree((state) => state.clock);
   
-  // Generate particle data
+  // Generate particle data. The shape is only read for the first positions, later
+  // shapes just change where particles respawn.
+  const initialShape = useRef(config.shape);
   const particleData = useMemo(() => {
-    return generateFrameGeometry(numParticles);
+    return generateFrameGeometry(numParticles, initialShape.current);
   }, [numParticles]);
+
+  // Where particles respawn. A new shape takes over particle by particle as they
+  // respawn, so the frame morphs into it over one lifetime.
+  const spawnPositionsRef = useRef<Float32Array | null>(null);
+  useEffect(() => {
+    spawnPositionsRef.current = shapePositions(config.shape, particleData.framePositions);
+  }, [config.shape, particleData]);
+
+  // Blend targets for the uniform-driven parts of the config. A 'pfp' palette
+  // targets the live theme colors instead.
+  const blendTargets = useMemo(() => ({
+    speed: config.speed,
+    direction: directionWeights(config),
+    color: config.palette === 'pfp' ? null : new THREE.Color(config.palette[0]),
+    secondaryColor: config.palette === 'pfp' ? null : new THREE.Color(config.palette[1]),
+    sprite: PARTICLE_SPRITES.indexOf(config.sprite),
+  }), [config]);
   
   // Track generation animation and burst effects
   const generationIntensityRef = useRef(0);
@@ -316,28 +379,30 @@ function ParticleFrame({ cardRef, isGenerating, numParticles = DEFAULT_NUM_PARTI
   // Trigger burst when generation starts
   React.useEffect(() => {
     if (isGenerating && !wasBurstingRef.current) {
-      burstTimeRef.current = Date.now() / 1000; // Convert to seconds
+      // On the scene clock, which uTime runs on too
+      burstTimeRef.current = clock.elapsedTime;
       wasBurstingRef.current = true;
       console.log('🎆 Starting continuous burst effect in shader');
     } else if (!isGenerating) {
       wasBurstingRef.current = false;
     }
-  }, [isGenerating]);
+  }, [isGenerating, clock]);
   
-  useFrame((state) => {
+  useFrame((state, frameDelta) => {
     if (!materialRef.current || !cardRef.current) return;
     
     const globalTime = state.clock.getElapsedTime();
     
     // Update time uniform - this drives all continuous animation
     if (materialRef.current.uniforms) {
-      materialRef.current.uniforms.uTime.value = globalTime;
+      const uniforms = materialRef.current.uniforms;
+      uniforms.uTime.value = globalTime;
       
       // Always sync with card position for non-burst particles
-      materialRef.current.uniforms.uCardPosition.value.copy(cardRef.current.position);
+      uniforms.uCardPosition.value.copy(cardRef.current.position);
       
       // Update generation state
-      materialRef.current.uniforms.uIsGenerating.value = isGenerating ? 1.0 : 0.0;
+      uniforms.uIsGenerating.value = isGenerating ? 1.0 : 0.0;
       
       // Smooth generation intensity animation
       const targetIntensity = isGenerating ? 1.0 : 0.0;
@@ -346,19 +411,36 @@ function ParticleFrame({ cardRef, isGenerating, numParticles = DEFAULT_NUM_PARTI
         targetIntensity,
         0.05
       );
-      materialRef.current.uniforms.uGenerationIntensity.value = generationIntensityRef.current;
+      uniforms.uGenerationIntensity.value = generationIntensityRef.current;
       
       // Update burst uniforms
-      materialRef.current.uniforms.uBurstTime.value = burstTimeRef.current;
-      materialRef.current.uniforms.uBurstActive.value = wasBurstingRef.current ? 1.0 : 0.0;
+      uniforms.uBurstTime.value = burstTimeRef.current;
+      uniforms.uBurstActive.value = wasBurstingRef.current ? 1.0 : 0.0;
+
+      // Ease emission, palette and sprite towards the current config
+      const blend = 1 - Math.exp(-frameDelta * BLEND_RATE);
+      uniforms.uSpeed.value = THREE.MathUtils.lerp(uniforms.uSpeed.value, blendTargets.speed, blend);
+      uniforms.uDirection.value.lerp(blendTargets.direction, blend);
+      uniforms.uColor.value.lerp(blendTargets.color ?? themeColors.primary, blend);
+      uniforms.uSecondaryColor.value.lerp(blendTargets.secondaryColor ?? themeColors.secondary, blend);
+      if (uniforms.uSpriteTo.value !== blendTargets.sprite) {
+        // Fade from whichever sprite shows most right now
+        uniforms.uSpriteFrom.value = uniforms.uSpriteMix.value < 0.5 ? uniforms.uSpriteFrom.value : uniforms.uSpriteTo.value;
+        uniforms.uSpriteTo.value = blendTargets.sprite;
+        uniforms.uSpriteMix.value = 0;
+      }
+      uniforms.uSpriteMix.value = Math.min(uniforms.uSpriteMix.value + frameDelta * BLEND_RATE * 0.5, 1);
     }
     
     // Respawn logic: Different behavior during burst vs normal
-    if (geometryRef.current && particleData.originalPositions) {
+    if (geometryRef.current && spawnPositionsRef.current) {
       const posAttr = (geometryRef.current as THREE.BufferGeometry).attributes.position;
       const positions = posAttr.array;
+      const spawnPositions = spawnPositionsRef.current;
       const lifetimesArr = particleData.lifetimes;
-      const delta = state.clock.getDelta();
+      // This frame's step, which follows the frame loop whether it runs live or
+      // is advanced by hand
+      const delta = frameDelta;
 
       for (let i = 0; i < lifetimesArr.length; i++) {
         const age = fmod(globalTime - lifetimesArr[i], PARTICLE_LIFETIME);
@@ -367,17 +449,17 @@ function ParticleFrame({ cardRef, isGenerating, numParticles = DEFAULT_NUM_PARTI
           
           if (isGenerating && wasBurstingRef.current) {
             // During burst: spawn new burst particles from frame positions
-            positions[idx] = particleData.originalPositions[idx] + (Math.random() - 0.5) * 0.1;
-            positions[idx + 1] = particleData.originalPositions[idx + 1] + (Math.random() - 0.5) * 0.1;
-            positions[idx + 2] = particleData.originalPositions[idx + 2] + (Math.random() - 0.5) * 0.1;
+            positions[idx] = spawnPositions[idx] + (Math.random() - 0.5) * 0.1;
+            positions[idx + 1] = spawnPositions[idx + 1] + (Math.random() - 0.5) * 0.1;
+            positions[idx + 2] = spawnPositions[idx + 2] + (Math.random() - 0.5) * 0.1;
             
             // Update lifetime to mark when this particle was spawned (for burst detection)
             lifetimesArr[i] = globalTime;
           } else if (!isGenerating) {
             // Normal mode: spawn regular frame particles
-            positions[idx] = particleData.originalPositions[idx] + (Math.random() - 0.5) * 0.05;
-            positions[idx + 1] = particleData.originalPositions[idx + 1] + (Math.random() - 0.5) * 0.05;
-            positions[idx + 2] = particleData.originalPositions[idx + 2] + (Math.random() - 0.5) * 0.05;
+            positions[idx] = spawnPositions[idx] + (Math.random() - 0.5) * 0.05;
+            positions[idx + 1] = spawnPositions[idx + 1] + (Math.random() - 0.5) * 0.05;
+            positions[idx + 2] = spawnPositions[idx + 2] + (Math.random() - 0.5) * 0.05;
           }
           // If isGenerating but not bursting yet, don't spawn new particles (let existing ones fade)
         }
@@ -418,4 +500,4 @@ function ParticleFrame({ cardRef, isGenerating, numParticles = DEFAULT_NUM_PARTI
   );
 }
 
-export default ParticleFrame;
\ No newline at end of file
+export default ParticleFrame;
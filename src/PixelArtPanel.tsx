@@ -0,0 +1,76 @@
+import {
+  PIXEL_GRIDS,
+  PIXEL_PALETTES,
+  isPixelGrid,
+  isPixelPaletteId,
+  type PixelArtSettings,
+} from './pixelArt'
+
+interface PixelArtPanelProps {
+  enabled: boolean
+  settings: PixelArtSettings
+  // Exporting needs a PFP on the card
+  canExport: boolean
+  onToggle: () => void
+  onChange: (settings: PixelArtSettings) => void
+  onExport: () => void
+}
+
+// Baked pixel art: turn it on to preview on the card, tune it, export the PNG
+function PixelArtPanel({ enabled, settings, canExport, onToggle, onChange, onExport }: PixelArtPanelProps) {
+  return (
+    <div className="look-panel pixel-art-panel">
+      <button className="seed-btn" onClick={onToggle}>
+        {enabled ? 'PIXEL ART ON' : 'PIXEL ART OFF'}
+      </button>
+
+      {enabled && (
+        <>
+          <label className="look-param">
+            <span>Grid</span>
+            <select
+              className="trait-select"
+              value={settings.grid}
+              onChange={(event) => {
+                const grid = Number(event.target.value)
+                if (isPixelGrid(grid)) onChange({ ...settings, grid })
+              }}
+            >
+              {PIXEL_GRIDS.map(grid => (
+                <option key={grid} value={grid}>{grid}×{grid}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="look-param">
+            <span>Palette</span>
+            <select
+              className="trait-select"
+              value={settings.palette}
+              onChange={(event) => {
+                if (isPixelPaletteId(event.target.value)) onChange({ ...settings, palette: event.target.value })
+              }}
+            >
+              {PIXEL_PALETTES.map(palette => (
+                <option key={palette.id} value={palette.id}>{palette.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="look-param">
+            <span>Dithering</span>
+            <input
+              type="checkbox"
+              checked={settings.dither}
+              onChange={(event) => onChange({ ...settings, dither: event.target.checked })}
+            />
+          </label>
+
+          <button className="seed-btn" onClick={onExport} disabled={!canExport}>⬇ PIXEL PNG</button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default PixelArtPanel
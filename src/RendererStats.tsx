@@ -0,0 +1,60 @@
+import { useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { textureManager } from './textureManager'
+
+export interface RendererStatsSample {
+  textures: number
+  geometries: number
+  programs: number
+  cardTextures: number
+  cardTextureBytes: number
+}
+
+// Seconds between samples
+const SAMPLE_INTERVAL = 0.5
+
+// Reads renderer.info from inside the R3F canvas and hands it to the DOM overlay
+export function RendererStatsProbe({ onSample }: { onSample: (sample: RendererStatsSample) => void }) {
+  const gl = useThree(state => state.gl)
+  const elapsed = useRef(SAMPLE_INTERVAL)
+
+  useFrame((_, delta) => {
+    elapsed.current += delta
+    if (elapsed.current < SAMPLE_INTERVAL) return
+    elapsed.current = 0
+
+    onSample({
+      textures: gl.info.memory.textures,
+      geometries: gl.info.memory.geometries,
+      programs: gl.info.programs?.length ?? 0,
+      cardTextures: textureManager.count,
+      cardTextureBytes: textureManager.estimatedBytes,
+    })
+  })
+
+  return null
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Debug readout of GPU resources, shown with ?debug in the URL
+function RendererStats({ sample }: { sample: RendererStatsSample | null }) {
+  if (!sample) return null
+
+  return (
+    <dl className="debug-stats">
+      <dt>Textures</dt>
+      <dd>{sample.textures}</dd>
+      <dt>Geometries</dt>
+      <dd>{sample.geometries}</dd>
+      <dt>Programs</dt>
+      <dd>{sample.programs}</dd>
+      <dt>Card textures</dt>
+      <dd>{sample.cardTextures} ({formatMegabytes(sample.cardTextureBytes)})</dd>
+    </dl>
+  )
+}
+
+export default RendererStats
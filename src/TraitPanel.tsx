@@ -0,0 +1,99 @@
+import { parseGradient, type CSSBackground } from './background'
+import { LAYER_CONFIG, LAYER_ORDER, type LayerId } from './layers'
+import type { PartialTraits } from './rules'
+import { layerChoices, traitLabel, type GeneratedTraits } from './traits'
+
+interface TraitPanelProps {
+  selection: GeneratedTraits | null
+  locks: PartialTraits
+  availableFiles: Record<string, string[]>
+  disabled: boolean
+  onToggleLock: (layer: LayerId) => void
+  onPickTrait: (layer: LayerId, value: string | null) => void
+}
+
+// Encode trait values for <select>, which can't hold null
+const NONE_VALUE = '__none__'
+
+function BackgroundDetails({ trait, cssBackground }: { trait: string | null, cssBackground: CSSBackground | null }) {
+  if (trait === null) {
+    return <span className="trait-background-kind">Transparent</span>
+  }
+
+  if (!cssBackground) {
+    return <span className="trait-background-kind">PNG · {trait}</span>
+  }
+
+  if (cssBackground.type === 'solid') {
+    return (
+      <span className="trait-background-kind">
+        Solid
+        <span className="trait-swatch" style={{ background: cssBackground.value }} title={cssBackground.value} />
+        {cssBackground.value}
+      </span>
+    )
+  }
+
+  const gradient = parseGradient(cssBackground.value)
+  return (
+    <span className="trait-background-kind">
+      Gradient {gradient?.direction}
+      {gradient?.colors.map((color, index) => (
+        <span key={index} className="trait-swatch" style={{ background: color }} title={color} />
+      ))}
+    </span>
+  )
+}
+
+// Panel listing the current trait of every layer, with lock, manual pick and on/off controls
+function TraitPanel({ selection, locks, availableFiles, disabled, onToggleLock, onPickTrait }: TraitPanelProps) {
+  return (
+    <div className="trait-panel">
+      <h2 className="panel-title">TRAITS</h2>
+
+      {LAYER_ORDER.map(layer => {
+        const locked = locks[layer] !== undefined
+        const current = locked ? locks[layer] ?? null : selection?.traits[layer] ?? null
+        const choices = layerChoices(layer, availableFiles)
+
+        return (
+          <div key={layer} className={`trait-row${locked ? ' trait-row-locked' : ''}`}>
+            <button
+              className="trait-lock"
+              onClick={() => onToggleLock(layer)}
+              disabled={disabled || (!selection && !locked)}
+              title={locked ? 'Unlock - reroll this layer next time' : 'Lock - keep this trait on reroll'}
+            >
+              {locked ? '🔒' : '🔓'}
+            </button>
+
+            <div className="trait-info">
+              <span className="trait-layer-name">{LAYER_CONFIG[layer].name}</span>
+              <select
+                className="trait-select"
+                value={current === null ? NONE_VALUE : current}
+                disabled={disabled || !selection}
+                onChange={(event) => {
+                  const value = event.target.value
+                  onPickTrait(layer, value === NONE_VALUE ? null : value)
+                }}
+              >
+                {choices.map(choice => (
+                  <option key={choice ?? NONE_VALUE} value={choice ?? NONE_VALUE}>
+                    {choice === null ? 'None (off)' : traitLabel(choice)}
+                  </option>
+                ))}
+              </select>
+
+              {layer === 'backgrounds' && selection && (
+                <BackgroundDetails trait={selection.traits.backgrounds} cssBackground={selection.cssBackground} />
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default TraitPanel
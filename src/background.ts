@@ -0,0 +1,132 @@
+import type { CompositeContext } from './compositor'
+import { pick, type Rng } from './random'
+
+// Generated (non-PNG) backgrounds: random gradients and solid colors
+
+export type CSSBackground = { type: 'gradient' | 'solid', value: string }
+
+// Share of generated backgrounds that are gradients rather than solid colors
+export const GRADIENT_CHANCE = 0.7
+
+// Function to generate random colors
+export function generateRandomColor(rng: Rng): string {
+  const colors = [
+    // Bright colors
+    '#FF6B9D', '#C44569', '#F8B500', '#FF3838', '#FF6348',
+    '#1DD1A1', '#00D2D3', '#0ABDE3', '#3742FA', '#5F27CD',
+    '#FD79A8', '#FDCB6E', '#6C5CE7', '#A29BFE', '#00B894',
+    '#00CEC9', '#0984E3', '#74B9FF', '#E17055', '#81ECEC',
+    '#FF7675', '#FFDD59', '#00B894', '#6C5CE7', '#FF6B6B',
+    
+    // Dark colors
+    '#2C2C54', '#40407A', '#706FD3', '#474787', '#8C7AE6',
+    '#34495E', '#2F3542', '#57606F', '#A4B0BE', '#747D8C',
+    '#5F27CD', '#341F97', '#6C5CE7', '#A29BFE', '#74B9FF',
+    '#2D3436', '#636E72', '#B2BEC3', '#DDD6FE', '#6366F1',
+    '#1E1E2E', '#313244', '#45475A', '#585B70', '#6C7086',
+    '#7F849C', '#9399B2', '#A6ADC8', '#BAC2DE', '#CDD6F4',
+    
+    // Very dark colors and black
+    '#000000', '#1A1A1A', '#2D2D2D', '#404040', '#1F1F23',
+    '#0F0F23', '#262626', '#181818', '#0D1117', '#161B22',
+    '#21262D', '#30363D', '#21262D', '#0E0E0E', '#141414',
+    
+    // Dark accent colors
+    '#8B0000', '#800080', '#483D8B', '#2F4F4F', '#000080',
+    '#008B8B', '#556B2F', '#8B4513', '#2F4F4F', '#191970',
+    '#8B008B', '#9932CC', '#4B0082', '#6A0DAD', '#4B0082'
+  ]
+  return pick(rng, colors)
+}
+
+// Function to generate random gradient
+export function generateRandomGradient(rng: Rng): string {
+  const directions = ['45deg', '90deg', '135deg', '180deg', '225deg', '270deg', '315deg', '0deg']
+  const direction = pick(rng, directions)
+  const color1 = generateRandomColor(rng)
+  const color2 = generateRandomColor(rng)
+  const color3 = generateRandomColor(rng)
+  
+  // Sometimes use 2 colors, sometimes 3
+  if (rng() > 0.3) {
+    return `linear-gradient(${direction}, ${color1}, ${color2})`
+  } else {
+    return `linear-gradient(${direction}, ${color1}, ${color2}, ${color3})`
+  }
+}
+
+// Function to generate CSS background, optionally of an already chosen type
+export function generateCSSBackground(rng: Rng, type?: CSSBackground['type']): CSSBackground {
+  const backgroundType = type ?? (rng() < GRADIENT_CHANCE ? 'gradient' : 'solid')
+  if (backgroundType === 'gradient') {
+    // 70% chance for gradient
+    return { type: 'gradient', value: generateRandomGradient(rng) }
+  } else {
+    // 30% chance for solid color
+    return { type: 'solid', value: generateRandomColor(rng) }
+  }
+}
+
+// Exactly what generateCSSBackground makes: a hex color, or a linear-gradient
+// at one of its angles through two or three of them
+const SOLID_PATTERN = /^#[0-9a-f]{6}$/i
+const GRADIENT_PATTERN = /^linear-gradient\((0|45|90|135|180|225|270|315)deg(, #[0-9a-f]{6}){2,3}\)$/i
+
+// Whether a value from outside (like a share link) is a background this app
+// could have generated, so nothing else ends up in the page's CSS
+export function isGeneratedCSSBackground({ type, value }: CSSBackground): boolean {
+  return (type === 'gradient' ? GRADIENT_PATTERN : SOLID_PATTERN).test(value)
+}
+
+// Split a generated linear-gradient into its direction and color stops
+export function parseGradient(value: string): { direction: string, colors: string[] } | null {
+  const gradientMatch = value.match(/linear-gradient\(([^)]+)\)/)
+  if (!gradientMatch) return null
+  const params = gradientMatch[1].split(',').map(p => p.trim())
+  return { direction: params[0], colors: params.slice(1) }
+}
+
+// Function to draw CSS background on canvas
+export function drawCSSBackground<TImage>(ctx: CompositeContext<TImage>, background: CSSBackground, width: number, height: number) {
+  if (background.type === 'solid') {
+    // Draw solid color
+    ctx.fillStyle = background.value
+    ctx.fillRect(0, 0, width, height)
+  } else {
+    // Draw gradient - parse the CSS gradient and create canvas gradient
+    const parsed = parseGradient(background.value)
+    if (parsed) {
+      const { direction, colors } = parsed
+      
+      // Convert CSS direction to canvas coordinates
+      let x0 = 0, y0 = 0, x1 = width, y1 = height
+      
+      if (direction.includes('45deg')) {
+        x0 = 0; y0 = height; x1 = width; y1 = 0
+      } else if (direction.includes('90deg')) {
+        x0 = 0; y0 = height; x1 = 0; y1 = 0
+      } else if (direction.includes('135deg')) {
+        x0 = width; y0 = height; x1 = 0; y1 = 0
+      } else if (direction.includes('180deg')) {
+        x0 = width; y0 = 0; x1 = 0; y1 = 0
+      } else if (direction.includes('225deg')) {
+        x0 = width; y0 = 0; x1 = 0; y1 = height
+      } else if (direction.includes('270deg')) {
+        x0 = 0; y0 = 0; x1 = 0; y1 = height
+      } else if (direction.includes('315deg')) {
+        x0 = 0; y0 = 0; x1 = width; y1 = height
+      }
+      
+      const gradient = ctx.createLinearGradient(x0, y0, x1, y1)
+      
+      // Add color stops
+      colors.forEach((color, index) => {
+        const stop = colors.length === 1 ? 0 : index / (colors.length - 1)
+        gradient.addColorStop(stop, color)
+      })
+      
+      ctx.fillStyle = gradient
+      ctx.fillRect(0, 0, width, height)
+    }
+  }
+}
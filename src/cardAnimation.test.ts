@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CROSSFADE_DURATION,
+  SPIN_CROSSFADE_START,
+  SPIN_DURATION,
+  cardAnimationReducer,
+  crossfadeAmount,
+  initialCardState,
+  type CardAnimationEvent,
+  type CardAnimationState,
+} from './cardAnimation'
+
+// Textures are plain strings here, the machine never looks inside them
+type State = CardAnimationState<string>
+
+function run(state: State, ...events: CardAnimationEvent<string>[]): State {
+  return events.reduce(cardAnimationReducer<string>, state)
+}
+
+const showing = (texture: string) => run(initialCardState<string>(), { type: 'image', texture })
+const spinFor = (progress: number) => ({ type: 'tick', delta: progress * SPIN_DURATION }) as const
+const fadeFor = (progress: number) => ({ type: 'tick', delta: progress * CROSSFADE_DURATION }) as const
+
+describe('cardAnimationReducer', () => {
+  it('shows the first image straight away', () => {
+    const state = showing('a')
+    expect(state.phase).toBe('idle')
+    expect(state.current).toBe('a')
+    expect(state.next).toBeNull()
+  })
+
+  describe('mid-spin', () => {
+    it('retargets to a newer image while the pending one is not showing yet', () => {
+      const state = run(showing('a'), { type: 'spin' }, spinFor(0.1), { type: 'image', texture: 'b' }, spinFor(0.1), {
+        type: 'image',
+        texture: 'c',
+      })
+      expect(state.phase).toBe('spinning')
+      expect(state.next).toBe('c')
+      expect(state.queued).toBeNull()
+      expect(state.fadeStart).toBe(SPIN_CROSSFADE_START)
+      expect(crossfadeAmount(state)).toBe(0)
+    })
+
+    it('fades a retargeted image in from where the spin is, not back at the start', () => {
+      const state = run(showing('a'), { type: 'spin' }, spinFor(0.5), { type: 'image', texture: 'b' })
+      expect(state.next).toBe('b')
+      expect(state.fadeStart).toBeCloseTo(0.5)
+      expect(crossfadeAmount(state)).toBe(0)
+    })
+
+    it('queues an image once the pending one is fading in, and plays it after the spin', () => {
+      const spinning = run(showing('a'), { type: 'spin' }, spinFor(0.1), { type: 'image', texture: 'b' }, spinFor(0.5))
+      expect(crossfadeAmount(spinning)).toBeGreaterThan(0)
+
+      const queued = run(spinning, { type: 'image', texture: 'c' })
+      expect(queued.next).toBe('b')
+      expect(queued.queued).toBe('c')
+
+      const done = run(queued, spinFor(1))
+      expect(done.phase).toBe('crossfading')
+      expect(done.current).toBe('b')
+      expect(done.next).toBe('c')
+      expect(done.queued).toBeNull()
+    })
+
+    it('queues an image that arrives too late in the spin to fade in', () => {
+      const state = run(showing('a'), { type: 'spin' }, spinFor(0.9), { type: 'image', texture: 'b' })
+      expect(state.next).toBeNull()
+      expect(state.queued).toBe('b')
+      expect(run(state, spinFor(1)).next).toBe('b')
+    })
+  })
+
+  describe('queued requests', () => {
+    it('waits for the running crossfade, and the latest request wins', () => {
+      const fading = run(showing('a'), { type: 'image', texture: 'b' }, fadeFor(0.5))
+      expect(fading.phase).toBe('crossfading')
+
+      const queued = run(fading, { type: 'image', texture: 'c' }, { type: 'image', texture: 'd' })
+      expect(queued.next).toBe('b')
+      expect(queued.queued).toBe('d')
+      expect(queued.progress).toBeCloseTo(0.5)
+
+      const next = run(queued, fadeFor(1))
+      expect(next.phase).toBe('crossfading')
+      expect(next.current).toBe('b')
+      expect(next.next).toBe('d')
+      expect(next.progress).toBe(0)
+
+      const done = run(next, fadeFor(1))
+      expect(done.current).toBe('d')
+      expect(done.next).toBeNull()
+    })
+
+    it('starts crossfading right away when an image arrives while the card settles', () => {
+      const settling = run(showing('a'), { type: 'spin' }, spinFor(1))
+      expect(settling.phase).toBe('settling')
+      expect(settling.float).toBeLessThan(1)
+
+      const state = run(settling, { type: 'image', texture: 'b' })
+      expect(state.phase).toBe('crossfading')
+      expect(state.current).toBe('a')
+      expect(state.next).toBe('b')
+      expect(state.float).toBe(settling.float)
+    })
+
+    it('carries a crossfade under way on through a spin', () => {
+      const fading = run(showing('a'), { type: 'image', texture: 'b' }, fadeFor(0.5))
+      const spinning = run(fading, { type: 'spin' })
+      expect(spinning.phase).toBe('spinning')
+      expect(crossfadeAmount(spinning)).toBeCloseTo(crossfadeAmount(fading))
+
+      const done = run(spinning, spinFor(1))
+      expect(done.current).toBe('b')
+      expect(done.next).toBeNull()
+    })
+  })
+
+  it('returns the same state for events that change nothing', () => {
+    const state = showing('a')
+    expect(cardAnimationReducer(state, { type: 'tick', delta: 1 })).toBe(state)
+    expect(cardAnimationReducer(state, { type: 'image', texture: 'a' })).toBe(state)
+  })
+})
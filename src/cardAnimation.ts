@@ -0,0 +1,191 @@
+// State machine behind the PFP card's spin and crossfade. It is plain data and
+// pure functions, generic over the texture type, so it runs without WebGL.
+//
+//   idle ──spin──▶ spinning ──spin done──▶ settling ──float back──▶ idle
+//     │               ▲                      │
+//     └──image──▶ crossfading ◀──image───────┘
+//
+// New images never swap in abruptly:
+// - while spinning, an image that arrives before its fade is visible replaces the
+//   pending one (retarget); later ones wait in `queued`
+// - an image that arrives too late in the spin to fade in nicely is queued too
+// - while crossfading, new images are queued and the latest one plays next
+
+export type CardPhase = 'idle' | 'spinning' | 'crossfading' | 'settling'
+
+export interface CardAnimationState<T> {
+  phase: CardPhase
+  // Texture fully shown (or fading out while `next` fades in)
+  current: T | null
+  // Texture fading in over `current`
+  next: T | null
+  // Texture waiting for the running fade to finish
+  queued: T | null
+  // 0..1 through the spin or crossfade
+  progress: number
+  // Spin progress at which `next` starts fading in, and its opacity at that point
+  fadeStart: number
+  fadeFrom: number
+  // 0..1 weight of the idle floating motion, eased out for spins and back in after
+  float: number
+}
+
+export type CardAnimationEvent<T> =
+  | { type: 'spin' }
+  | { type: 'image', texture: T }
+  | { type: 'tick', delta: number }
+  | { type: 'reset' }
+
+// Durations in seconds
+export const SPIN_DURATION = 1 / 1.5
+export const CROSSFADE_DURATION = 0.5
+const FLOAT_OUT_DURATION = 0.15
+const SETTLE_DURATION = 0.5
+
+// Spin progress where a pending image starts fading in
+export const SPIN_CROSSFADE_START = 0.4
+// An image arriving with less of the spin left than this fades in after the spin instead
+const MIN_SPIN_FADE = 0.2
+
+export function initialCardState<T>(): CardAnimationState<T> {
+  return {
+    phase: 'idle',
+    current: null,
+    next: null,
+    queued: null,
+    progress: 0,
+    fadeStart: SPIN_CROSSFADE_START,
+    fadeFrom: 0,
+    float: 1,
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1)
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t)
+}
+
+// How far `next` has replaced `current`, 0..1. Drives the card's transition shader.
+export function crossfadeAmount<T>(state: CardAnimationState<T>): number {
+  if (!state.next) return 0
+  if (state.phase === 'crossfading') return state.progress
+  if (state.phase !== 'spinning') return 0
+  if (state.progress <= state.fadeStart) return state.fadeFrom
+  const t = clamp01((state.progress - state.fadeStart) / (1 - state.fadeStart))
+  return state.fadeFrom + (1 - state.fadeFrom) * t
+}
+
+// Opacity for something drawn for one texture when blending by plain opacity.
+// The scene catches up with the machine a frame late, so anything still showing
+// a texture the machine has moved past is hidden.
+export function textureOpacity<T>(state: CardAnimationState<T>, texture: T): number {
+  const fade = crossfadeAmount(state)
+  if (texture === state.next) return fade
+  if (texture === state.current) return 1 - fade
+  return 0
+}
+
+export interface CardPose {
+  rotationX: number
+  rotationY: number
+  positionY: number
+}
+
+// Card transform at a point in time: the spin plus the weighted idle float
+export function cardPose<T>(state: CardAnimationState<T>, elapsed: number): CardPose {
+  const spin = state.phase === 'spinning' ? Math.PI * 2 * smoothstep(state.progress) : 0
+  return {
+    rotationX: Math.sin(elapsed * 0.3) * 0.02 * state.float,
+    rotationY: spin + Math.sin(elapsed * 0.5) * 0.05 * state.float,
+    positionY: Math.sin(elapsed * 0.8) * 0.1 * state.float,
+  }
+}
+
+function startCrossfade<T>(state: CardAnimationState<T>, texture: T): CardAnimationState<T> {
+  return { ...state, phase: 'crossfading', next: texture, queued: null, progress: 0 }
+}
+
+// The running fade is done: show `next`, then play whatever was queued
+function commitNext<T>(state: CardAnimationState<T>): CardAnimationState<T> {
+  const committed = { ...state, current: state.next ?? state.current, next: null, progress: 0 }
+  if (committed.queued) return startCrossfade(committed, committed.queued)
+  return { ...committed, phase: committed.float < 1 ? 'settling' : 'idle' }
+}
+
+function receiveImage<T>(state: CardAnimationState<T>, texture: T): CardAnimationState<T> {
+  if (texture === state.current || texture === state.next || texture === state.queued) return state
+
+  // The very first image has nothing to fade from
+  if (!state.current && !state.next) return { ...state, current: texture }
+
+  switch (state.phase) {
+    case 'spinning': {
+      const fadeVisible = state.next !== null && crossfadeAmount(state) > 0
+      if (fadeVisible || 1 - state.progress < MIN_SPIN_FADE) return { ...state, queued: texture }
+      return {
+        ...state,
+        next: texture,
+        fadeStart: Math.max(SPIN_CROSSFADE_START, state.progress),
+        fadeFrom: 0,
+      }
+    }
+    case 'crossfading':
+      return { ...state, queued: texture }
+    default:
+      return startCrossfade(state, texture)
+  }
+}
+
+function startSpin<T>(state: CardAnimationState<T>): CardAnimationState<T> {
+  if (state.phase === 'spinning') return state
+
+  // A crossfade already under way carries on over the course of the spin
+  const fadeFrom = state.phase === 'crossfading' ? crossfadeAmount(state) : 0
+  return {
+    ...state,
+    phase: 'spinning',
+    progress: 0,
+    fadeStart: state.phase === 'crossfading' ? 0 : SPIN_CROSSFADE_START,
+    fadeFrom,
+  }
+}
+
+function tick<T>(state: CardAnimationState<T>, delta: number): CardAnimationState<T> {
+  switch (state.phase) {
+    case 'spinning': {
+      const progress = Math.min(state.progress + delta / SPIN_DURATION, 1)
+      const float = Math.max(state.float - delta / FLOAT_OUT_DURATION, 0)
+      if (progress < 1) return { ...state, progress, float }
+      return commitNext({ ...state, progress, float })
+    }
+    case 'crossfading': {
+      const progress = Math.min(state.progress + delta / CROSSFADE_DURATION, 1)
+      const float = Math.min(state.float + delta / SETTLE_DURATION, 1)
+      if (progress < 1) return { ...state, progress, float }
+      return commitNext({ ...state, progress, float })
+    }
+    case 'settling': {
+      const float = Math.min(state.float + delta / SETTLE_DURATION, 1)
+      return { ...state, float, phase: float < 1 ? 'settling' : 'idle' }
+    }
+    default:
+      return state
+  }
+}
+
+// Returns the same object when nothing changed
+export function cardAnimationReducer<T>(state: CardAnimationState<T>, event: CardAnimationEvent<T>): CardAnimationState<T> {
+  switch (event.type) {
+    case 'spin':
+      return startSpin(state)
+    case 'image':
+      return receiveImage(state, event.texture)
+    case 'tick':
+      return tick(state, event.delta)
+    case 'reset':
+      return initialCardState()
+  }
+}
@@ -0,0 +1,129 @@
+import { LAYER_CONFIG } from './layers'
+import { traitLabel, type RarityReport } from './traits'
+
+// Back of the PFP card, drawn like a trading card: a thumbnail of the front, the
+// rarity score and tier, every trait with its odds, and the seed
+
+export interface CardBackInfo {
+  seed: string
+  rarity: RarityReport
+  // The composited front, shown as a thumbnail
+  image: Blob
+}
+
+const FONT = "'Courier New', monospace"
+
+// Shorten text with an ellipsis until it fits in maxWidth
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text
+  let fitted = text
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted}…`
+}
+
+function formatOdds(probability: number): string {
+  const percent = probability * 100
+  return `${percent < 10 ? percent.toFixed(1) : Math.round(percent)}%`
+}
+
+export function drawCardBack(
+  ctx: CanvasRenderingContext2D,
+  { seed, rarity }: Omit<CardBackInfo, 'image'>,
+  thumbnail: CanvasImageSource,
+  size: number
+) {
+  // Everything is laid out on a 100 unit grid and scaled to the texture size
+  const unit = size / 100
+  const { tier } = rarity
+
+  const background = ctx.createLinearGradient(0, 0, size, size)
+  background.addColorStop(0, '#1a1a2e')
+  background.addColorStop(1, '#0f0f1a')
+  ctx.fillStyle = background
+  ctx.fillRect(0, 0, size, size)
+
+  // Tier colored frame
+  ctx.strokeStyle = tier.color
+  ctx.lineWidth = unit * 1.2
+  ctx.beginPath()
+  ctx.roundRect(unit * 3, unit * 3, unit * 94, unit * 94, unit * 4)
+  ctx.stroke()
+
+  ctx.textBaseline = 'middle'
+
+  // Header
+  ctx.fillStyle = '#ffffff'
+  ctx.font = `bold ${unit * 6}px ${FONT}`
+  ctx.textAlign = 'left'
+  ctx.fillText('LOLCAT PFP', unit * 8, unit * 11)
+
+  // Thumbnail with the rarity beside it
+  ctx.drawImage(thumbnail, unit * 8, unit * 18, unit * 30, unit * 30)
+  ctx.lineWidth = unit * 0.6
+  ctx.strokeRect(unit * 8, unit * 18, unit * 30, unit * 30)
+
+  ctx.fillStyle = '#ffffff99'
+  ctx.font = `${unit * 3.5}px ${FONT}`
+  ctx.fillText('RARITY SCORE', unit * 44, unit * 22)
+  ctx.fillStyle = '#ffffff'
+  ctx.font = `bold ${unit * 11}px ${FONT}`
+  ctx.fillText(rarity.score.toFixed(1), unit * 44, unit * 31)
+
+  ctx.fillStyle = tier.color
+  ctx.beginPath()
+  ctx.roundRect(unit * 44, unit * 39, unit * 36, unit * 8, unit * 4)
+  ctx.fill()
+  ctx.fillStyle = '#0f0f1a'
+  ctx.font = `bold ${unit * 4.5}px ${FONT}`
+  ctx.textAlign = 'center'
+  ctx.fillText(tier.name.toUpperCase(), unit * 62, unit * 43.2)
+
+  // Trait list: layer name, trait and the odds of rolling it
+  const rowHeight = Math.min(6, 34 / rarity.traits.length) * unit
+  ctx.font = `${unit * 3.4}px ${FONT}`
+  rarity.traits.forEach(({ layer, value, probability }, index) => {
+    const y = unit * 56 + index * rowHeight
+    ctx.textAlign = 'left'
+    ctx.fillStyle = '#ffffff99'
+    ctx.fillText(LAYER_CONFIG[layer].name, unit * 8, y)
+    ctx.fillStyle = '#ffffff'
+    ctx.fillText(fitText(ctx, traitLabel(value), unit * 30), unit * 46, y)
+    ctx.textAlign = 'right'
+    ctx.fillStyle = tier.color
+    ctx.fillText(formatOdds(probability), unit * 92, y)
+  })
+
+  // Seed along the bottom
+  ctx.strokeStyle = '#ffffff33'
+  ctx.lineWidth = unit * 0.3
+  ctx.beginPath()
+  ctx.moveTo(unit * 8, unit * 88)
+  ctx.lineTo(unit * 92, unit * 88)
+  ctx.stroke()
+  ctx.textAlign = 'left'
+  ctx.fillStyle = '#ffffff99'
+  ctx.font = `${unit * 3.2}px ${FONT}`
+  ctx.fillText(fitText(ctx, `SEED ${seed}`, unit * 84), unit * 8, unit * 92)
+}
+
+// Draw the back of the card into a PNG
+export async function renderCardBack({ image, ...info }: CardBackInfo, size: number): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('2D canvas is not available')
+
+  const thumbnail = await createImageBitmap(image)
+  try {
+    drawCardBack(ctx, info, thumbnail, size)
+  } finally {
+    thumbnail.close()
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the card back as PNG')), 'image/png')
+  })
+}
@@ -0,0 +1,167 @@
+// Interactive rotation of the PFP card: dragging with inertia, leaning toward the
+// pointer and flipping to the back face. Like the animation state machine it is
+// plain data and pure functions, and its angles are added on top of the card's
+// pose, so the spin and float keep working underneath.
+
+export interface CardControlsState {
+  dragging: boolean
+  // Rotation from dragging, in radians. Springs back to 0 once let go.
+  dragX: number
+  dragY: number
+  // Radians per second, carried on as inertia after a release
+  velocityX: number
+  velocityY: number
+  // Drag movement since the last tick, used to measure velocity
+  movedX: number
+  movedY: number
+  // Turn around the vertical axis from flips, easing toward `flipTarget`. Multiples
+  // of π; odd ones show the back face.
+  flip: number
+  flipTarget: number
+  // Lean toward the pointer, in radians
+  tiltX: number
+  tiltY: number
+}
+
+export type CardControlsEvent =
+  | { type: 'grab' }
+  | { type: 'drag', dx: number, dy: number }
+  | { type: 'release' }
+  | { type: 'flip' }
+  // Straight to rest on whichever face the card ends up showing, e.g. before a capture
+  | { type: 'settle' }
+  // `pointer` is in normalized device coordinates, `tilt` the lean at its edges
+  | { type: 'tick', delta: number, pointer: { x: number, y: number }, tilt: number }
+
+// Radians per pixel dragged
+export const DRAG_SPEED = 0.01
+// Keeps the card from being tipped over backwards
+const MAX_DRAG_X = Math.PI / 3
+// Pull back toward the resting pose, and how quickly motion dies down
+const SPRING_STIFFNESS = 30
+const SPRING_DAMPING = 8
+// Rates of the exponential easing for flips and tilt, per second
+const FLIP_RATE = 6
+const TILT_RATE = 6
+
+export function initialControlsState(): CardControlsState {
+  return {
+    dragging: false,
+    dragX: 0,
+    dragY: 0,
+    velocityX: 0,
+    velocityY: 0,
+    movedX: 0,
+    movedY: 0,
+    flip: 0,
+    flipTarget: 0,
+    tiltX: 0,
+    tiltY: 0,
+  }
+}
+
+export function isFlipped(state: CardControlsState): boolean {
+  return Math.round(state.flipTarget / Math.PI) % 2 !== 0
+}
+
+// Rotation the controls add to the card's pose
+export function controlsRotation(state: CardControlsState): { x: number, y: number } {
+  return {
+    x: state.dragX + state.tiltX,
+    y: state.flip + state.dragY + state.tiltY,
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+// Fraction of the way to a target covered in `delta` seconds, frame rate independent
+function easeFactor(rate: number, delta: number): number {
+  return 1 - Math.exp(-rate * delta)
+}
+
+// A card let go more than halfway round stays turned around: the drag becomes a
+// flip, so the spring brings it to rest on the other face rather than back again
+function settleDrag(state: CardControlsState): CardControlsState {
+  const turns = Math.round(state.dragY / Math.PI)
+  if (turns === 0) return state
+  return {
+    ...state,
+    dragY: state.dragY - turns * Math.PI,
+    flip: state.flip + turns * Math.PI,
+    flipTarget: state.flipTarget + turns * Math.PI,
+  }
+}
+
+function tick(state: CardControlsState, event: Extract<CardControlsEvent, { type: 'tick' }>): CardControlsState {
+  const { delta, pointer, tilt } = event
+  if (delta <= 0) return state
+
+  const flip = state.flip + (state.flipTarget - state.flip) * easeFactor(FLIP_RATE, delta)
+  // No leaning while the card is held, the drag already follows the pointer
+  const tiltWeight = state.dragging ? 0 : tilt
+  const tiltEase = easeFactor(TILT_RATE, delta)
+  const tiltX = state.tiltX + (-pointer.y * tiltWeight - state.tiltX) * tiltEase
+  const tiltY = state.tiltY + (pointer.x * tiltWeight - state.tiltY) * tiltEase
+
+  if (state.dragging) {
+    // Smooth the measured speed so a single jerky frame doesn't decide the throw
+    const blend = 0.5
+    return {
+      ...state,
+      velocityX: state.velocityX + (state.movedX / delta - state.velocityX) * blend,
+      velocityY: state.velocityY + (state.movedY / delta - state.velocityY) * blend,
+      movedX: 0,
+      movedY: 0,
+      flip,
+      tiltX,
+      tiltY,
+    }
+  }
+
+  // Damped spring back to the resting pose, starting from the throw's speed
+  const damping = Math.exp(-SPRING_DAMPING * delta)
+  const velocityX = (state.velocityX - state.dragX * SPRING_STIFFNESS * delta) * damping
+  const velocityY = (state.velocityY - state.dragY * SPRING_STIFFNESS * delta) * damping
+  return settleDrag({
+    ...state,
+    dragX: clamp(state.dragX + velocityX * delta, -MAX_DRAG_X, MAX_DRAG_X),
+    dragY: state.dragY + velocityY * delta,
+    velocityX,
+    velocityY,
+    flip,
+    tiltX,
+    tiltY,
+  })
+}
+
+export function cardControlsReducer(state: CardControlsState, event: CardControlsEvent): CardControlsState {
+  switch (event.type) {
+    case 'grab':
+      return { ...state, dragging: true, velocityX: 0, velocityY: 0, movedX: 0, movedY: 0 }
+    case 'drag': {
+      if (!state.dragging) return state
+      const dx = event.dy * DRAG_SPEED
+      const dy = event.dx * DRAG_SPEED
+      return {
+        ...state,
+        dragX: clamp(state.dragX + dx, -MAX_DRAG_X, MAX_DRAG_X),
+        dragY: state.dragY + dy,
+        movedX: state.movedX + dx,
+        movedY: state.movedY + dy,
+      }
+    }
+    case 'release':
+      if (!state.dragging) return state
+      return settleDrag({ ...state, dragging: false })
+    case 'flip':
+      return { ...state, flipTarget: state.flipTarget + Math.PI }
+    case 'settle': {
+      const { flipTarget } = settleDrag({ ...state, dragging: false })
+      return { ...initialControlsState(), flip: flipTarget, flipTarget }
+    }
+    case 'tick':
+      return tick(state, event)
+  }
+}
@@ -0,0 +1,143 @@
+import { generateCSSBackground } from './background'
+import { buildMetadata, type PFPMetadata } from './metadata'
+import { createRng } from './random'
+import type { PartialTraits } from './rules'
+import {
+  computeRarity,
+  countCombinations,
+  forEachCombination,
+  selectTraits,
+  traitKey,
+  type GeneratedTraits,
+  type RarityReport,
+  type TraitSelection,
+} from './traits'
+import { createZip, type ZipEntry } from './zip'
+
+// Batch generation of a whole collection where every PFP has a unique trait combination
+
+export interface CollectionItem {
+  number: number
+  seed: string
+  selection: GeneratedTraits
+  rarity: RarityReport
+  metadata: PFPMetadata
+}
+
+export class CollectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CollectionError'
+  }
+}
+
+// Random rerolls per item before falling back to picking among the unused combinations
+const MAX_REROLLS = 200
+
+export function collectionFileBase(number: number, size: number): string {
+  return String(number).padStart(Math.max(4, String(size).length), '0')
+}
+
+function collectionItem(number: number, size: number, seed: string, selection: GeneratedTraits, availableFiles: Record<string, string[]>): CollectionItem {
+  const rarity = computeRarity(selection.traits, availableFiles)
+  const fileBase = collectionFileBase(number, size)
+  return {
+    number,
+    seed,
+    selection,
+    rarity,
+    metadata: buildMetadata({ seed, selection, rarity, name: `LOLCAT PFP #${number}`, image: `${fileBase}.png` }),
+  }
+}
+
+// Pick the traits for every item up front. Item n uses seed "<baseSeed>-<n>", so the
+// whole collection is reproducible from its base seed. Throws before doing any work
+// when the layers can't produce enough distinct combinations.
+export function planCollection(
+  size: number,
+  baseSeed: string,
+  availableFiles: Record<string, string[]>,
+  locked: PartialTraits = {}
+): CollectionItem[] {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new CollectionError('Collection size must be a positive whole number')
+  }
+
+  const available = countCombinations(availableFiles, { locked }, size)
+  if (size > available) {
+    throw new CollectionError(
+      `Only ${available} distinct trait combinations exist with the current layers, rules and locks - can't make ${size} unique PFPs`
+    )
+  }
+
+  const used = new Set<string>()
+  const items: CollectionItem[] = []
+
+  for (let number = 1; number <= size; number++) {
+    let picked: { seed: string, selection: GeneratedTraits } | null = null
+
+    for (let attempt = 0; attempt < MAX_REROLLS && !picked; attempt++) {
+      const seed = attempt === 0 ? `${baseSeed}-${number}` : `${baseSeed}-${number}-${attempt}`
+      const selection = selectTraits(createRng(seed), availableFiles, { locked })
+      if (!used.has(traitKey(selection.traits))) picked = { seed, selection }
+    }
+
+    if (!picked) {
+      // Nearly every combination is taken: pick one of the few left directly
+      const seed = `${baseSeed}-${number}-rest`
+      const rng = createRng(seed)
+      const unused: TraitSelection[] = []
+      forEachCombination(availableFiles, { locked }, traits => {
+        if (!used.has(traitKey(traits))) unused.push(traits)
+        return true
+      })
+      const traits = unused[Math.floor(rng() * unused.length)]
+      const background = traits.backgrounds
+      const cssBackground = background === 'gradient' || background === 'solid'
+        ? generateCSSBackground(rng, background)
+        : null
+      picked = { seed, selection: { traits, cssBackground } }
+    }
+
+    used.add(traitKey(picked.selection.traits))
+    items.push(collectionItem(number, size, picked.seed, picked.selection, availableFiles))
+  }
+
+  return items
+}
+
+// Composites one PFP into a PNG, e.g. CompositorPool.compose
+export type PFPRenderer = (selection: GeneratedTraits, size: number, signal?: AbortSignal) => Promise<Blob>
+
+export interface RenderCollectionOptions {
+  outputSize: number
+  render: PFPRenderer
+  onProgress?: (done: number, total: number) => void
+  signal?: AbortSignal
+}
+
+// Render every item (all at once, the renderer decides how many actually run in
+// parallel) and pack numbered PNGs plus one metadata JSON per image into a ZIP
+export async function renderCollection(
+  items: CollectionItem[],
+  { outputSize, render, onProgress, signal }: RenderCollectionOptions
+): Promise<Blob> {
+  signal?.throwIfAborted()
+
+  let done = 0
+  const images = await Promise.all(items.map(async item => {
+    const png = await render(item.selection, outputSize, signal)
+    onProgress?.(++done, items.length)
+    return png
+  }))
+
+  const entries: ZipEntry[] = items.flatMap((item, index) => {
+    const fileBase = collectionFileBase(item.number, items.length)
+    return [
+      { name: `images/${fileBase}.png`, data: images[index] },
+      { name: `metadata/${fileBase}.json`, data: JSON.stringify(item.metadata, null, 2) },
+    ]
+  })
+
+  return createZip(entries)
+}
@@ -0,0 +1,89 @@
+import { drawCSSBackground } from './background'
+import { LAYER_ORDER, type LayerId } from './layers'
+import type { GeneratedTraits, TraitSelection } from './traits'
+
+// The subset of the Canvas 2D API that compositing needs, so the same code can
+// draw to an on-screen canvas, an OffscreenCanvas or a canvas outside the browser
+export interface CompositeContext<TImage> {
+  // Accepts a color string or a gradient made by createLinearGradient
+  fillStyle: unknown
+  clearRect(x: number, y: number, width: number, height: number): void
+  fillRect(x: number, y: number, width: number, height: number): void
+  drawImage(image: TImage, dx: number, dy: number, dw: number, dh: number): void
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): {
+    addColorStop(offset: number, color: string): void
+  }
+}
+
+export type TraitImageLoader<TImage> = (layer: LayerId, file: string) => Promise<TImage>
+
+// One layer of a PFP drawn on its own, for the exploded 3D card
+export interface LayerImage {
+  layer: LayerId
+  image: Blob
+}
+
+// Public URL of a trait file
+export function traitPath(layer: LayerId, file: string): string {
+  return `/pfp/${layer}/${file}`
+}
+
+// Wrap a loader so every trait file is only loaded once. Failed loads are
+// forgotten so the next request tries again.
+export function cachedLoader<TImage>(load: TraitImageLoader<TImage>): TraitImageLoader<TImage> {
+  const cache = new Map<string, Promise<TImage>>()
+  return (layer, file) => {
+    const key = traitPath(layer, file)
+    let image = cache.get(key)
+    if (!image) {
+      image = load(layer, file)
+      cache.set(key, image)
+      image.catch(() => cache.delete(key))
+    }
+    return image
+  }
+}
+
+// Draw the selected traits onto a square context, bottom layer first
+export async function composePFP<TImage>(
+  ctx: CompositeContext<TImage>,
+  { traits, cssBackground }: GeneratedTraits,
+  size: number,
+  loadImage: TraitImageLoader<TImage>
+) {
+  // Load every layer at once, then draw them in order so the canvas is never half done
+  const images = await Promise.all(LAYER_ORDER.map(async layerName => {
+    const trait = traits[layerName]
+    if (!trait || (layerName === 'backgrounds' && cssBackground)) return null
+
+    try {
+      return await loadImage(layerName, trait)
+    } catch (error) {
+      console.error(`Failed to load image: ${traitPath(layerName, trait)}`, error)
+      return null
+    }
+  }))
+
+  ctx.clearRect(0, 0, size, size)
+
+  LAYER_ORDER.forEach((layerName, index) => {
+    const img = images[index]
+    if (layerName === 'backgrounds' && cssBackground && traits.backgrounds) {
+      drawCSSBackground(ctx, cssBackground, size, size)
+    } else if (img) {
+      ctx.drawImage(img, 0, 0, size, size)
+    }
+  })
+}
+
+// The selection with every layer but one removed, or null when that layer is empty
+export function layerSelection({ traits, cssBackground }: GeneratedTraits, layer: LayerId): GeneratedTraits | null {
+  if (!traits[layer]) return null
+  const only = Object.fromEntries(LAYER_ORDER.map(id => [id, id === layer ? traits[id] : null])) as TraitSelection
+  return { traits: only, cssBackground: layer === 'backgrounds' ? cssBackground : null }
+}
+
+// The selection without its background, leaving just the cat on a transparent canvas
+export function figureSelection({ traits }: GeneratedTraits): GeneratedTraits {
+  return { traits: { ...traits, backgrounds: null }, cssBackground: null }
+}
@@ -0,0 +1,115 @@
+import { composePFP, layerSelection, type LayerImage } from './compositor'
+import { LAYER_ORDER } from './layers'
+import { loadTraitImage, preloadTraitImages } from './traitImages'
+import type { GeneratedTraits } from './traits'
+
+// Compositing worker: draws PFPs on an OffscreenCanvas and encodes them, keeping
+// the main thread free for the 3D scene. Each worker has its own image cache.
+
+export interface ComposeOptions {
+  // Encoding of the image, PNG by default
+  mimeType?: string
+  quality?: number
+  // Size of the source art. Bigger images are drawn at this size and then
+  // upscaled sharply instead of smoothing every layer straight up.
+  sharpUpscaleFrom?: number
+}
+
+export type CompositorJob =
+  | { type: 'preload', availableFiles: Record<string, string[]> }
+  | { type: 'compose', selection: GeneratedTraits, size: number, options?: ComposeOptions }
+  | { type: 'layers', selection: GeneratedTraits, size: number }
+
+export type CompositorRequest = CompositorJob & { id: number }
+
+// Nothing for preload, an image for compose, one PNG per non-empty layer for layers
+export type CompositorResult = Blob | LayerImage[] | null
+
+export type CompositorResponse =
+  | { type: 'progress', id: number, loaded: number, total: number }
+  | { type: 'done', id: number, result: CompositorResult }
+  | { type: 'error', id: number, message: string }
+
+let canvas: OffscreenCanvas | null = null
+
+function context2d(target: OffscreenCanvas): OffscreenCanvasRenderingContext2D {
+  const ctx = target.getContext('2d')
+  if (!ctx) throw new Error('2D canvas is not available in the compositing worker')
+  return ctx
+}
+
+// Blow the image up by a whole factor with hard edges, then smooth it down to the
+// final size: crisper than smoothing straight up, without uneven pixels
+function sharpUpscale(source: OffscreenCanvas, size: number): OffscreenCanvas {
+  const factor = Math.ceil(size / source.width)
+  const large = new OffscreenCanvas(source.width * factor, source.height * factor)
+  const largeCtx = context2d(large)
+  largeCtx.imageSmoothingEnabled = false
+  largeCtx.drawImage(source, 0, 0, large.width, large.height)
+
+  const output = new OffscreenCanvas(size, size)
+  const ctx = context2d(output)
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(large, 0, 0, size, size)
+  return output
+}
+
+async function compose(
+  selection: GeneratedTraits,
+  size: number,
+  { mimeType = 'image/png', quality, sharpUpscaleFrom }: ComposeOptions = {}
+): Promise<Blob> {
+  const drawSize = sharpUpscaleFrom && sharpUpscaleFrom < size ? sharpUpscaleFrom : size
+  if (!canvas) {
+    canvas = new OffscreenCanvas(drawSize, drawSize)
+  } else if (canvas.width !== drawSize) {
+    canvas.width = drawSize
+    canvas.height = drawSize
+  }
+
+  await composePFP(context2d(canvas), selection, drawSize, loadTraitImage)
+  const output = drawSize < size ? sharpUpscale(canvas, size) : canvas
+
+  // Formats without transparency get a white background instead of black
+  if (mimeType === 'image/jpeg') {
+    const ctx = context2d(output)
+    ctx.globalCompositeOperation = 'destination-over'
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, size, size)
+    ctx.globalCompositeOperation = 'source-over'
+  }
+  return output.convertToBlob({ type: mimeType, quality })
+}
+
+// Every non-empty layer drawn on its own, bottom layer first
+async function composeLayers(selection: GeneratedTraits, size: number): Promise<LayerImage[]> {
+  const layers: LayerImage[] = []
+  for (const layer of LAYER_ORDER) {
+    const single = layerSelection(selection, layer)
+    if (single) layers.push({ layer, image: await compose(single, size) })
+  }
+  return layers
+}
+
+function respond(response: CompositorResponse) {
+  self.postMessage(response)
+}
+
+// The pool sends one job at a time, so the shared canvas is never drawn to twice at once
+self.addEventListener('message', async (event: MessageEvent<CompositorRequest>) => {
+  const request = event.data
+  try {
+    if (request.type === 'preload') {
+      await preloadTraitImages(request.availableFiles, (loaded, total) => {
+        respond({ type: 'progress', id: request.id, loaded, total })
+      })
+      respond({ type: 'done', id: request.id, result: null })
+    } else if (request.type === 'layers') {
+      respond({ type: 'done', id: request.id, result: await composeLayers(request.selection, request.size) })
+    } else {
+      respond({ type: 'done', id: request.id, result: await compose(request.selection, request.size, request.options) })
+    }
+  } catch (error) {
+    respond({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) })
+  }
+})
@@ -0,0 +1,192 @@
+import type {
+  ComposeOptions,
+  CompositorJob,
+  CompositorRequest,
+  CompositorResponse,
+  CompositorResult,
+} from './compositor.worker'
+import { composePFP, layerSelection, type LayerImage } from './compositor'
+import { LAYER_ORDER } from './layers'
+import { loadTraitImage, preloadTraitImages } from './traitImages'
+import type { GeneratedTraits } from './traits'
+
+// Runs compositing jobs on a pool of workers. Workers are started on demand, so
+// single PFPs only ever use one and bulk jobs spread out over the rest.
+
+type ProgressHandler = (loaded: number, total: number) => void
+
+interface QueuedJob {
+  job: CompositorJob
+  resolve: (result: CompositorResult) => void
+  reject: (error: unknown) => void
+  onProgress?: ProgressHandler
+}
+
+interface PoolWorker {
+  worker: Worker
+  job: QueuedJob | null
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator === 'undefined' ? 2 : navigator.hardwareConcurrency || 2
+  // Leave a core for the main thread and the 3D scene
+  return Math.max(1, Math.min(4, cores - 1))
+}
+
+// Browsers without OffscreenCanvas (or workers) composite on the main thread instead
+function supportsWorkerCompositing(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+}
+
+// Without the worker there's no sharp upscaling, big images are smoothed straight up
+async function composeOnMainThread(
+  selection: GeneratedTraits,
+  size: number,
+  { mimeType = 'image/png', quality }: ComposeOptions = {}
+): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('2D canvas is not available')
+
+  await composePFP(ctx, selection, size, loadTraitImage)
+  if (mimeType === 'image/jpeg') {
+    ctx.globalCompositeOperation = 'destination-over'
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, size, size)
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Could not encode the PFP as ${mimeType}`)), mimeType, quality)
+  })
+}
+
+export class CompositorPool {
+  private readonly size: number
+  private readonly workers: PoolWorker[] = []
+  private readonly queue: QueuedJob[] = []
+  private nextId = 0
+  private readonly running = new Map<number, PoolWorker>()
+
+  constructor(size = defaultPoolSize()) {
+    this.size = size
+  }
+
+  // Fetch and decode every trait in the first worker, which is the one single PFPs use
+  async preload(availableFiles: Record<string, string[]>, onProgress?: ProgressHandler): Promise<void> {
+    if (!supportsWorkerCompositing()) {
+      await preloadTraitImages(availableFiles, onProgress)
+      return
+    }
+    await this.enqueue({ type: 'preload', availableFiles }, onProgress)
+  }
+
+  // Composite one PFP into an image, a PNG unless the options say otherwise. Jobs
+  // wait in a queue while every worker is busy; aborting drops a job that hasn't
+  // started yet.
+  async compose(selection: GeneratedTraits, size: number, signal?: AbortSignal, options?: ComposeOptions): Promise<Blob> {
+    if (!supportsWorkerCompositing()) return composeOnMainThread(selection, size, options)
+
+    const image = await this.enqueue({ type: 'compose', selection, size, options }, undefined, signal)
+    if (!(image instanceof Blob)) throw new Error('Compositing worker returned no image')
+    return image
+  }
+
+  // Composite every non-empty layer into its own PNG, bottom layer first
+  async composeLayers(selection: GeneratedTraits, size: number, signal?: AbortSignal): Promise<LayerImage[]> {
+    if (!supportsWorkerCompositing()) {
+      const layers: LayerImage[] = []
+      for (const layer of LAYER_ORDER) {
+        const single = layerSelection(selection, layer)
+        if (single) layers.push({ layer, image: await composeOnMainThread(single, size) })
+      }
+      return layers
+    }
+
+    const layers = await this.enqueue({ type: 'layers', selection, size }, undefined, signal)
+    if (!Array.isArray(layers)) throw new Error('Compositing worker returned no layers')
+    return layers
+  }
+
+  private enqueue(job: CompositorJob, onProgress?: ProgressHandler, signal?: AbortSignal): Promise<CompositorResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const queued: QueuedJob = { job, resolve, reject, onProgress }
+      signal?.addEventListener('abort', () => {
+        const index = this.queue.indexOf(queued)
+        if (index === -1) return
+        this.queue.splice(index, 1)
+        reject(signal.reason)
+      }, { once: true })
+
+      this.queue.push(queued)
+      this.dispatch()
+    })
+  }
+
+  // Hand queued jobs to idle workers, starting new ones up to the pool size
+  private dispatch() {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find(candidate => !candidate.job)
+      if (!slot) {
+        if (this.workers.length >= this.size) return
+        slot = this.startWorker()
+      }
+
+      const queued = this.queue.shift()!
+      const id = this.nextId++
+      slot.job = queued
+      this.running.set(id, slot)
+      slot.worker.postMessage({ ...queued.job, id } satisfies CompositorRequest)
+    }
+  }
+
+  private startWorker(): PoolWorker {
+    const worker = new Worker(new URL('./compositor.worker.ts', import.meta.url), { type: 'module' })
+    const slot: PoolWorker = { worker, job: null }
+
+    worker.addEventListener('message', (event: MessageEvent<CompositorResponse>) => {
+      const response = event.data
+      const job = this.running.get(response.id)?.job
+      if (!job) return
+
+      if (response.type === 'progress') {
+        job.onProgress?.(response.loaded, response.total)
+        return
+      }
+
+      this.running.delete(response.id)
+      slot.job = null
+      if (response.type === 'done') {
+        job.resolve(response.result)
+      } else {
+        job.reject(new Error(response.message))
+      }
+      this.dispatch()
+    })
+
+    // A worker that failed to start or crashed takes its job down with it
+    worker.addEventListener('error', (event) => {
+      console.error('❌ Compositing worker failed:', event.message)
+      worker.terminate()
+      const index = this.workers.indexOf(slot)
+      if (index !== -1) this.workers.splice(index, 1)
+      for (const [id, running] of this.running) {
+        if (running === slot) this.running.delete(id)
+      }
+      slot.job?.reject(new Error(`Compositing worker failed: ${event.message}`))
+      slot.job = null
+      this.dispatch()
+    })
+
+    this.workers.push(slot)
+    return slot
+  }
+}
+
+// Shared by the card and the collection generator so they never start more workers than the pool size
+export const compositorPool = new CompositorPool()
@@ -0,0 +1,40 @@
+import * as THREE from 'three'
+import { Effect, EffectAttribute } from 'postprocessing'
+import { wrapEffect } from '@react-three/postprocessing'
+
+// Bulge of an old CRT screen: the image bends outward from the center and the
+// corners fall off into black
+
+const FRAGMENT_SHADER = /* glsl */ `
+uniform float curvature;
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+  vec2 centered = uv * 2.0 - 1.0;
+  // Each axis bends more the further out along the other one it is
+  vec2 bent = centered + centered * centered.yx * centered.yx * curvature;
+  vec2 curvedUv = bent * 0.5 + 0.5;
+
+  vec2 edge = smoothstep(vec2(0.0), vec2(0.004), curvedUv) * smoothstep(vec2(0.0), vec2(0.004), 1.0 - curvedUv);
+  outputColor = texture2D(inputBuffer, curvedUv) * edge.x * edge.y;
+}
+`
+
+export class CrtCurvatureEffect extends Effect {
+  constructor({ curvature = 0.15 }: { curvature?: number } = {}) {
+    super('CrtCurvatureEffect', FRAGMENT_SHADER, {
+      // Samples the frame away from its own pixel, so it needs a pass of its own
+      attributes: EffectAttribute.CONVOLUTION,
+      uniforms: new Map([['curvature', new THREE.Uniform(curvature)]]),
+    })
+  }
+
+  get curvature(): number {
+    return this.uniforms.get('curvature')!.value
+  }
+
+  set curvature(value: number) {
+    this.uniforms.get('curvature')!.value = value
+  }
+}
+
+export const CrtCurvature = wrapEffect(CrtCurvatureEffect)
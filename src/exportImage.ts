@@ -0,0 +1,70 @@
+import { LAYER_ORDER } from './layers'
+import { pfpFileBase } from './metadata'
+import type { TraitManifest } from './traitManifest'
+import { traitLabel, type GeneratedTraits } from './traits'
+
+// Options for downloading the flat PFP: file formats, sizes and naming
+
+export const EXPORT_FORMATS = [
+  { id: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', quality: undefined },
+  { id: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', quality: 0.92 },
+  // JPEG has no transparency, so transparent PFPs get a white background
+  { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', quality: 0.92 },
+] as const
+
+export type ExportFormatId = typeof EXPORT_FORMATS[number]['id']
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export const EXPORT_SIZES = [400, 800, 1024, 2048] as const
+
+export function exportFormat(id: ExportFormatId): ExportFormat {
+  return EXPORT_FORMATS.find(format => format.id === id)!
+}
+
+export function isExportFormatId(value: string): value is ExportFormatId {
+  return EXPORT_FORMATS.some(format => format.id === value)
+}
+
+// Size of the largest trait image in the PFP, past which exports are upscaled.
+// Null when nothing in it comes from an image (a generated background alone).
+export function sourceArtSize({ traits, cssBackground }: GeneratedTraits, manifest: TraitManifest): number | null {
+  const sizes = LAYER_ORDER.flatMap(layer => {
+    const trait = traits[layer]
+    if (!trait || (layer === 'backgrounds' && cssBackground)) return []
+    const file = manifest[layer]?.find(candidate => candidate.file === trait)
+    return file ? [Math.max(file.width, file.height)] : []
+  })
+  return sizes.length > 0 ? Math.max(...sizes) : null
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+// Longest trait part of a file name, to stay clear of file system limits
+const MAX_TRAIT_NAME_LENGTH = 80
+
+// File name from the seed, the traits that set this PFP apart and the size, e.g.
+// lolcat-abc123-hand-001-eye-000-background-003-1024.png. Layers with a single
+// file look the same on every PFP, so they're left out.
+export function exportFileName({ seed, selection, availableFiles, size, format }: {
+  seed: string
+  selection: GeneratedTraits
+  availableFiles: Record<string, string[]>
+  size: number
+  format: ExportFormat
+}): string {
+  const traitNames = LAYER_ORDER
+    .filter(layer => (availableFiles[layer]?.length ?? 0) > 1 || layer === 'backgrounds')
+    .flatMap(layer => {
+      const value = selection.traits[layer]
+      if (!value) return []
+      // Trait files are named <layer>_<name>, the layer adds nothing here
+      return [slug(traitLabel(value).replace(new RegExp(`^${layer}_`, 'i'), ''))]
+    })
+    .join('-')
+    .slice(0, MAX_TRAIT_NAME_LENGTH)
+    .replace(/-$/, '')
+
+  return [pfpFileBase(seed), traitNames, String(size)].filter(Boolean).join('-') + `.${format.extension}`
+}
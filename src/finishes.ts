@@ -0,0 +1,183 @@
+import * as THREE from 'three'
+import type { RarityTier } from './traits'
+
+// Card finishes: how the card's face, back and frame catch the light. Each is a
+// set of physical material values, optionally with a shader effect that changes
+// with the viewing angle. They live in the materials, so anything rendering the
+// scene shows them.
+
+type FinishEffect = 'holographic' | 'glitter'
+
+interface FinishMaterial {
+  params: THREE.MeshPhysicalMaterialParameters
+  // Strength of the finish's shader effect on this part
+  effectStrength: number
+}
+
+export interface CardFinish {
+  id: string
+  label: string
+  effect: FinishEffect | null
+  // The face material is shared with the back
+  face: FinishMaterial
+  frame: FinishMaterial
+  // Frame color and glow, or null to take the border color of the PFP's theme
+  frameColor: { color: string, emissive: string } | null
+}
+
+// Every finish sets all of these, so switching never leaves values behind
+const BASE_FACE: THREE.MeshPhysicalMaterialParameters = {
+  emissive: 'white',
+  emissiveIntensity: 0.5,
+  metalness: 0,
+  roughness: 1,
+  clearcoat: 0,
+  clearcoatRoughness: 0,
+  iridescence: 0,
+}
+
+const BASE_FRAME: THREE.MeshPhysicalMaterialParameters = {
+  emissiveIntensity: 0.1,
+  metalness: 0.8,
+  roughness: 0.2,
+  clearcoat: 0,
+  clearcoatRoughness: 0,
+  iridescence: 0,
+}
+
+export const FINISHES = [
+  {
+    id: 'matte',
+    label: 'Matte',
+    effect: null,
+    face: { params: { ...BASE_FACE, emissiveIntensity: 0.45 }, effectStrength: 0 },
+    frame: { params: { ...BASE_FRAME, metalness: 0.1, roughness: 0.85 }, effectStrength: 0 },
+    frameColor: null,
+  },
+  {
+    id: 'glossy',
+    label: 'Glossy',
+    effect: null,
+    face: { params: { ...BASE_FACE, roughness: 0.35, clearcoat: 1, clearcoatRoughness: 0.05 }, effectStrength: 0 },
+    frame: { params: { ...BASE_FRAME, clearcoat: 1, clearcoatRoughness: 0.05 }, effectStrength: 0 },
+    frameColor: null,
+  },
+  {
+    id: 'holographic',
+    label: 'Holo Foil',
+    effect: 'holographic',
+    face: { params: { ...BASE_FACE, roughness: 0.3, clearcoat: 1, iridescence: 1 }, effectStrength: 0.25 },
+    frame: { params: { ...BASE_FRAME, metalness: 0.9, roughness: 0.15, iridescence: 1 }, effectStrength: 0.6 },
+    frameColor: null,
+  },
+  {
+    id: 'gold',
+    label: 'Gold',
+    effect: null,
+    face: { params: { ...BASE_FACE, emissive: '#fff0c0', roughness: 0.4, clearcoat: 1, clearcoatRoughness: 0.1 }, effectStrength: 0 },
+    frame: { params: { ...BASE_FRAME, metalness: 1, roughness: 0.25 }, effectStrength: 0 },
+    frameColor: { color: '#d4af37', emissive: '#8a6d1a' },
+  },
+  {
+    id: 'glitter',
+    label: 'Glitter',
+    effect: 'glitter',
+    face: { params: { ...BASE_FACE, roughness: 0.5, clearcoat: 0.6 }, effectStrength: 0.6 },
+    frame: { params: { ...BASE_FRAME, metalness: 0.6, roughness: 0.35 }, effectStrength: 1.5 },
+    frameColor: null,
+  },
+] as const satisfies readonly CardFinish[]
+
+export type FinishId = typeof FINISHES[number]['id']
+export type FinishChoice = FinishId | 'auto'
+export type CardPart = 'face' | 'frame'
+
+export const DEFAULT_FINISH: FinishId = 'glossy'
+
+// Finish each rarity tier gets when the finish is left on auto
+export const TIER_FINISHES: Record<RarityTier['id'], FinishId> = {
+  common: 'matte',
+  uncommon: 'glossy',
+  rare: 'glitter',
+  epic: 'holographic',
+  legendary: 'gold',
+}
+
+export function isFinishChoice(value: string): value is FinishChoice {
+  return value === 'auto' || FINISHES.some(finish => finish.id === value)
+}
+
+// The finish to show: the one picked by hand, or the tier's. Cards without a PFP
+// yet get the default.
+export function resolveFinish(choice: FinishChoice, tier: RarityTier | null): FinishId {
+  if (choice !== 'auto') return choice
+  return tier ? TIER_FINISHES[tier.id] : DEFAULT_FINISH
+}
+
+interface FinishState {
+  effect: FinishEffect | null
+  strength: { value: number }
+}
+
+// Both effects work in the card's own space (so they stick to the surface as it
+// turns) against the angle it's seen from
+const EFFECT_GLSL: Record<FinishEffect, string> = {
+  holographic: `
+  // Rainbow bands that slide across the surface as the viewing angle changes
+  float finishFacing = dot(normal, normalize(vViewPosition));
+  float finishHue = finishFacing * 2.5 + dot(vFinishPosition.xy, vec2(0.35, 0.2));
+  vec3 finishRainbow = 0.5 + 0.5 * cos(6.28318 * (finishHue + vec3(0.0, 0.33, 0.67)));
+  outgoingLight = mix(outgoingLight, outgoingLight * 0.6 + finishRainbow * 0.6, uFinishStrength * (1.5 - abs(finishFacing)));
+`,
+  glitter: `
+  // Sparse flakes that each twinkle at their own angle
+  vec2 finishCell = floor(vFinishPosition.xy * 40.0);
+  float finishRandom = fract(sin(dot(finishCell, vec2(127.1, 311.7))) * 43758.5453);
+  float finishFacing = dot(normal, normalize(vViewPosition));
+  float finishTwinkle = pow(max(sin(finishFacing * 60.0 + finishRandom * 6.28318), 0.0), 12.0);
+  outgoingLight += vec3(1.0, 0.95, 0.85) * step(0.85, finishRandom) * finishTwinkle * uFinishStrength;
+`,
+}
+
+// Chain the finish effect after whatever the material already does when compiling
+function installFinishHook(material: THREE.MeshPhysicalMaterial): FinishState {
+  const state: FinishState = { effect: null, strength: { value: 0 } }
+  const baseCompile = material.onBeforeCompile.bind(material)
+  // Taken before the hook is swapped, since the default key is the hook's source
+  const baseCacheKey = material.customProgramCacheKey()
+
+  material.onBeforeCompile = (shader, renderer) => {
+    baseCompile(shader, renderer)
+    if (!state.effect) return
+    shader.uniforms.uFinishStrength = state.strength
+    shader.vertexShader = shader.vertexShader
+      .replace('void main() {', 'varying vec3 vFinishPosition;\nvoid main() {')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\n  vFinishPosition = position;')
+    shader.fragmentShader = shader.fragmentShader
+      .replace('void main() {', 'varying vec3 vFinishPosition;\nuniform float uFinishStrength;\nvoid main() {')
+      .replace('#include <opaque_fragment>', `${EFFECT_GLSL[state.effect]}\n#include <opaque_fragment>`)
+  }
+  material.customProgramCacheKey = () => `${baseCacheKey}|finish-${state.effect ?? 'none'}`
+
+  material.userData.finish = state
+  return state
+}
+
+// Frame color the finish insists on, or null when the frame follows the theme
+export function finishFrameColor(id: FinishId): CardFinish['frameColor'] {
+  return FINISHES.find(finish => finish.id === id)!.frameColor
+}
+
+// Give one part of the card a finish. Only a change of effect recompiles the shader.
+export function applyFinish(material: THREE.MeshPhysicalMaterial, id: FinishId, part: CardPart) {
+  const finish: CardFinish = FINISHES.find(candidate => candidate.id === id)!
+  const state = (material.userData.finish as FinishState | undefined) ?? installFinishHook(material)
+  const { params, effectStrength } = finish[part]
+
+  material.setValues(params)
+  state.strength.value = effectStrength
+  if (state.effect !== finish.effect) {
+    state.effect = finish.effect
+    material.needsUpdate = true
+  }
+}
@@ -0,0 +1,147 @@
+// Look of the particle frame around the card: the outline particles spawn on,
+// the sprite they're drawn with, how they're emitted and their colors
+
+export const FRAME_SHAPES = ['square', 'circle', 'heart', 'star', 'paw'] as const
+export const PARTICLE_SPRITES = ['square', 'circle', 'heart', 'sparkle'] as const
+export const EMISSION_DIRECTIONS = ['outward', 'inward', 'up', 'swirl'] as const
+
+export type FrameShape = typeof FRAME_SHAPES[number]
+export type ParticleSprite = typeof PARTICLE_SPRITES[number]
+export type EmissionDirection = typeof EMISSION_DIRECTIONS[number]
+
+export interface ParticleFrameConfig {
+  shape: FrameShape
+  sprite: ParticleSprite
+  // Units per second particles travel in `direction`
+  speed: number
+  direction: EmissionDirection
+  // Particles shimmer between the two colors, or follow the PFP's theme
+  palette: [primary: string, secondary: string] | 'pfp'
+}
+
+export interface ParticleFramePreset {
+  id: string
+  label: string
+  config: ParticleFrameConfig
+}
+
+export const PARTICLE_FRAME_PRESETS = [
+  {
+    id: 'classic',
+    label: 'Classic',
+    config: { shape: 'square', sprite: 'square', speed: 0.4, direction: 'outward', palette: 'pfp' },
+  },
+  {
+    id: 'dreamy',
+    label: 'Dreamy',
+    config: { shape: 'circle', sprite: 'circle', speed: 0.25, direction: 'swirl', palette: ['#c3b1e1', '#ffd1e3'] },
+  },
+  {
+    id: 'lovecat',
+    label: 'Love Cat',
+    config: { shape: 'heart', sprite: 'heart', speed: 0.3, direction: 'up', palette: ['#ff4d6d', '#ffb3c1'] },
+  },
+  {
+    id: 'superstar',
+    label: 'Superstar',
+    config: { shape: 'star', sprite: 'sparkle', speed: 0.6, direction: 'outward', palette: ['#ffd166', '#ffffff'] },
+  },
+  {
+    id: 'pawsome',
+    label: 'Pawsome',
+    config: { shape: 'paw', sprite: 'circle', speed: 0.15, direction: 'inward', palette: ['#f4a261', '#e76f51'] },
+  },
+] as const satisfies readonly ParticleFramePreset[]
+
+export type ParticleFramePresetId = typeof PARTICLE_FRAME_PRESETS[number]['id']
+
+export const DEFAULT_FRAME_PRESET: ParticleFramePresetId = 'classic'
+
+export function isFramePresetId(value: string): value is ParticleFramePresetId {
+  return PARTICLE_FRAME_PRESETS.some(preset => preset.id === value)
+}
+
+export function framePresetConfig(id: ParticleFramePresetId): ParticleFrameConfig {
+  const { config } = PARTICLE_FRAME_PRESETS.find(preset => preset.id === id)!
+  return { ...config, palette: config.palette === 'pfp' ? 'pfp' : [...config.palette] }
+}
+
+type Point = [number, number]
+
+// Half the size of the classic square frame, slightly larger than the card
+const HALF_SIZE = 1.7
+// Points per outline when tracing curves
+const CURVE_STEPS = 128
+
+function ellipse(cx: number, cy: number, rx: number, ry: number): Point[] {
+  return Array.from({ length: CURVE_STEPS }, (_, i) => {
+    const angle = (i / CURVE_STEPS) * Math.PI * 2
+    return [cx + Math.cos(angle) * rx, cy + Math.sin(angle) * ry]
+  })
+}
+
+// Closed outlines of each shape. Some shapes (the paw) are made of several
+// separate outlines.
+const SHAPE_OUTLINES: Record<FrameShape, Point[][]> = {
+  square: [[[-HALF_SIZE, HALF_SIZE], [HALF_SIZE, HALF_SIZE], [HALF_SIZE, -HALF_SIZE], [-HALF_SIZE, -HALF_SIZE]]],
+  circle: [ellipse(0, 0, HALF_SIZE * 1.15, HALF_SIZE * 1.15)],
+  heart: [Array.from({ length: CURVE_STEPS }, (_, i) => {
+    // The classic heart curve, scaled to wrap around the card
+    const t = (i / CURVE_STEPS) * Math.PI * 2
+    const x = 16 * Math.sin(t) ** 3
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)
+    return [x * 0.18, y * 0.18 + 0.45]
+  })],
+  star: [Array.from({ length: 10 }, (_, i) => {
+    const angle = Math.PI / 2 - (i / 10) * Math.PI * 2
+    const radius = i % 2 === 0 ? HALF_SIZE * 1.75 : HALF_SIZE * 1.25
+    return [Math.cos(angle) * radius, Math.sin(angle) * radius]
+  })],
+  paw: [
+    ellipse(0, -0.35, 2.0, 1.55),
+    ellipse(-1.75, 1.45, 0.45, 0.55),
+    ellipse(-0.65, 2.05, 0.45, 0.55),
+    ellipse(0.65, 2.05, 0.45, 0.55),
+    ellipse(1.75, 1.45, 0.45, 0.55),
+  ],
+}
+
+interface Segment {
+  from: Point
+  to: Point
+  // Perimeter covered before this segment, 0..1
+  start: number
+  length: number
+}
+
+// Every edge of every outline, measured so points spread evenly along the perimeter
+function outlineSegments(outlines: Point[][]): Segment[] {
+  const edges = outlines.flatMap(points => points.map((from, i) => {
+    const to = points[(i + 1) % points.length]
+    return { from, to, length: Math.hypot(to[0] - from[0], to[1] - from[1]) }
+  }))
+  const total = edges.reduce((sum, edge) => sum + edge.length, 0)
+
+  let covered = 0
+  return edges.map(edge => {
+    const segment = { ...edge, start: covered / total, length: edge.length / total }
+    covered += edge.length
+    return segment
+  })
+}
+
+const SHAPE_SEGMENTS = Object.fromEntries(
+  FRAME_SHAPES.map(shape => [shape, outlineSegments(SHAPE_OUTLINES[shape])])
+) as Record<FrameShape, Segment[]>
+
+// Point a fraction `t` (0..1) of the way along the shape's outline
+export function framePoint(shape: FrameShape, t: number): Point {
+  const segments = SHAPE_SEGMENTS[shape]
+  const wrapped = ((t % 1) + 1) % 1
+  const segment = segments.find(candidate => wrapped < candidate.start + candidate.length) ?? segments[segments.length - 1]
+  const along = segment.length > 0 ? (wrapped - segment.start) / segment.length : 0
+  return [
+    segment.from[0] + (segment.to[0] - segment.from[0]) * along,
+    segment.from[1] + (segment.to[1] - segment.from[1]) * along,
+  ]
+}
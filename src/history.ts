@@ -0,0 +1,67 @@
+import type { PFPMetadata } from './metadata'
+import type { PartialTraits } from './rules'
+import type { GeneratedTraits } from './traits'
+
+// Every generated PFP, persisted in IndexedDB so it survives reloads
+
+export interface HistoryEntry {
+  id: string
+  createdAt: number
+  seed: string
+  selection: GeneratedTraits
+  locks: PartialTraits
+  image: Blob
+  metadata: PFPMetadata
+  favorite: boolean
+}
+
+const DB_NAME = 'lolcat-pfp'
+const DB_VERSION = 1
+const HISTORY_STORE = 'history'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(HISTORY_STORE, { keyPath: 'id' })
+        store.createIndex('createdAt', 'createdAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE, mode)
+    const request = run(transaction.objectStore(HISTORY_STORE))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// All entries, oldest first
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  return withStore<HistoryEntry[]>('readonly', store => store.index('createdAt').getAll())
+}
+
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await withStore('readwrite', store => store.put(entry))
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+export function createHistoryId(): string {
+  return crypto.randomUUID()
+}
@@ -0,0 +1,71 @@
+import type { TraitRule } from './rules'
+
+// Layer metadata, layer odds, per-trait rarity weights and compatibility rules
+
+// Base configuration for layer metadata, in z-index order (bottom to top)
+export const LAYER_CONFIG = {
+  backgrounds: { name: 'Backgrounds' },
+  z0: { name: 'Base Cat' }, // mandatory
+  z1: { name: 'Hands' },
+  z2: { name: 'Paws' }, // mandatory
+  z3: { name: 'Eyes' },
+  z4: { name: 'Head Accessories' },
+  z5: { name: 'Whiskers' }, // mandatory
+}
+
+export type LayerId = keyof typeof LAYER_CONFIG
+
+// Layers in the order they are composited
+export const LAYER_ORDER = Object.keys(LAYER_CONFIG) as LayerId[]
+
+// Chance that an optional layer shows up at all (layers not listed are mandatory)
+export const LAYER_PROBABILITIES: Partial<Record<LayerId, number>> = {
+  backgrounds: 0.8,
+  z1: 0.6,
+  z3: 0.7,
+  z4: 0.5,
+}
+
+// Relative weight of a trait file within its layer. Files not listed here
+// weigh DEFAULT_TRAIT_WEIGHT, so 0.2 makes a trait five times rarer than usual.
+export const TRAIT_WEIGHTS: Partial<Record<LayerId, Record<string, number>>> = {
+  z4: {
+    'z4_head_002.png': 0.2,
+  },
+}
+
+export const DEFAULT_TRAIT_WEIGHT = 1
+
+// Weight of a generated gradient/solid background, competing with the PNG backgrounds
+export const GENERATED_BACKGROUND_WEIGHT = 5
+
+// Combinations that look broken. The generator only produces PFPs that satisfy
+// every rule, keeping the weights above for whatever is still allowed.
+export const TRAIT_RULES: TraitRule[] = [
+  // The cap's brim sits right on top of the visor sunglasses
+  { type: 'excludes', trait: 'z4/z4_head_002.png', excludes: 'z3/z3_eye_001.png' },
+  // The racket is held in place of the paw
+  { type: 'disablesLayer', trait: 'z1/z1_hand_001.png', layer: 'z2' },
+]
+
+// Rarity tiers by rarity score (see computeRarity), rarest first. Scores grow as
+// trait files are added, so retune these along with the weights above.
+export const RARITY_TIERS = [
+  { id: 'legendary', name: 'Legendary', minScore: 40, color: '#ffd166' },
+  { id: 'epic', name: 'Epic', minScore: 28, color: '#c77dff' },
+  { id: 'rare', name: 'Rare', minScore: 25, color: '#4cc9f0' },
+  { id: 'uncommon', name: 'Uncommon', minScore: 20, color: '#80ed99' },
+  { id: 'common', name: 'Common', minScore: 0, color: '#adb5bd' },
+] as const
+
+export function isMandatoryLayer(layer: LayerId): boolean {
+  return LAYER_PROBABILITIES[layer] === undefined
+}
+
+export function layerProbability(layer: LayerId): number {
+  return LAYER_PROBABILITIES[layer] ?? 1.0
+}
+
+export function traitWeight(layer: LayerId, file: string): number {
+  return TRAIT_WEIGHTS[layer]?.[file] ?? DEFAULT_TRAIT_WEIGHT
+}
@@ -0,0 +1,114 @@
+// Post-processing looks: named sets of screen effects, each with a few
+// parameters that can be tuned by hand
+
+export interface LookParam {
+  id: string
+  label: string
+  min: number
+  max: number
+  step: number
+  default: number
+}
+
+export interface Look {
+  id: string
+  label: string
+  params: readonly LookParam[]
+}
+
+export const LOOKS = [
+  {
+    id: 'clean',
+    label: 'Clean',
+    params: [],
+  },
+  {
+    id: 'crt',
+    label: 'Retro CRT',
+    params: [
+      { id: 'density', label: 'Scanlines', min: 0.5, max: 3, step: 0.05, default: 1.25 },
+      { id: 'scanlineStrength', label: 'Scanline strength', min: 0, max: 1, step: 0.05, default: 0.4 },
+      { id: 'curvature', label: 'Curvature', min: 0, max: 0.5, step: 0.01, default: 0.15 },
+      { id: 'vignette', label: 'Vignette', min: 0, max: 1, step: 0.05, default: 0.6 },
+    ],
+  },
+  {
+    id: 'glitch',
+    label: 'Glitch',
+    params: [
+      { id: 'aberration', label: 'Aberration', min: 0, max: 0.02, step: 0.001, default: 0.004 },
+      { id: 'strength', label: 'Glitch strength', min: 0, max: 1, step: 0.05, default: 0.3 },
+      // Seconds between glitches, on average
+      { id: 'interval', label: 'Interval', min: 0.5, max: 8, step: 0.5, default: 3 },
+    ],
+  },
+  {
+    id: 'halftone',
+    label: 'Dot Screen',
+    params: [
+      { id: 'scale', label: 'Dot size', min: 0.2, max: 2, step: 0.05, default: 1 },
+      // Degrees
+      { id: 'angle', label: 'Angle', min: 0, max: 90, step: 1, default: 45 },
+    ],
+  },
+  {
+    id: 'vaporwave',
+    label: 'Vaporwave',
+    params: [
+      // Degrees around the color wheel
+      { id: 'hue', label: 'Hue shift', min: -180, max: 180, step: 5, default: -60 },
+      { id: 'saturation', label: 'Saturation', min: -1, max: 1, step: 0.05, default: 0.35 },
+      { id: 'noise', label: 'Noise', min: 0, max: 0.6, step: 0.02, default: 0.2 },
+    ],
+  },
+] as const satisfies readonly Look[]
+
+export type LookId = typeof LOOKS[number]['id']
+
+// A look with its parameter values
+export interface LookSettings {
+  id: LookId
+  params: Record<string, number>
+}
+
+export const DEFAULT_LOOK: LookId = 'clean'
+
+export function isLookId(value: string): value is LookId {
+  return LOOKS.some(look => look.id === value)
+}
+
+export function lookParams(id: LookId): readonly LookParam[] {
+  return LOOKS.find(look => look.id === id)!.params
+}
+
+export function defaultLookSettings(id: LookId = DEFAULT_LOOK): LookSettings {
+  return {
+    id,
+    params: Object.fromEntries(lookParams(id).map(param => [param.id, param.default])),
+  }
+}
+
+// Settings from untrusted input (stored preferences, links): unknown looks fall
+// back to the default, and every parameter is present and within its range
+export function normalizeLook(id: string, params: Record<string, unknown> = {}): LookSettings {
+  const lookId = isLookId(id) ? id : DEFAULT_LOOK
+  return {
+    id: lookId,
+    params: Object.fromEntries(lookParams(lookId).map(param => {
+      const value = Number(params[param.id])
+      return [param.id, Number.isFinite(value) ? Math.min(Math.max(value, param.min), param.max) : param.default]
+    })),
+  }
+}
+
+// Parameters as they go in a link, e.g. "density:1.25,curvature:0.15"
+export function encodeLookParams({ params }: LookSettings): string {
+  return Object.entries(params).map(([id, value]) => `${id}:${value}`).join(',')
+}
+
+export function decodeLookParams(encoded: string): Record<string, number> {
+  return Object.fromEntries(encoded.split(',').flatMap(pair => {
+    const [id, value] = pair.split(':')
+    return id && value !== undefined ? [[id, Number(value)]] : []
+  }))
+}
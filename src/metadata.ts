@@ -0,0 +1,65 @@
+import { LAYER_CONFIG, LAYER_ORDER } from './layers'
+import { traitLabel, type GeneratedTraits, type RarityReport } from './traits'
+
+// NFT-style metadata in the ERC-721 / OpenSea `attributes` format
+
+export interface PFPAttribute {
+  trait_type: string
+  value: string | number
+  display_type?: 'number'
+}
+
+export interface PFPMetadata {
+  name: string
+  description: string
+  image: string
+  seed: string
+  background: string
+  rarity: {
+    score: number
+  }
+  attributes: PFPAttribute[]
+}
+
+// Base name shared by every file exported for one PFP
+export function pfpFileBase(seed: string): string {
+  return `lolcat-${seed}`
+}
+
+// One line description of the background layer
+export function describeBackground({ traits, cssBackground }: GeneratedTraits): string {
+  const background = traits.backgrounds
+  if (background === null) return 'None (transparent)'
+  if (cssBackground) return `${traitLabel(cssBackground.type)} ${cssBackground.value}`
+  return `PNG ${traitLabel(background)}`
+}
+
+export function buildMetadata({ seed, selection, rarity, name, image }: {
+  seed: string
+  selection: GeneratedTraits
+  rarity: RarityReport
+  name?: string
+  image?: string
+}): PFPMetadata {
+  const score = Math.round(rarity.score * 100) / 100
+
+  return {
+    name: name ?? `LOLCAT PFP ${seed}`,
+    description: 'A procedurally generated lolcat PFP.',
+    image: image ?? `${pfpFileBase(seed)}.png`,
+    seed,
+    background: describeBackground(selection),
+    rarity: { score },
+    attributes: [
+      ...LAYER_ORDER.map(layer => ({
+        trait_type: LAYER_CONFIG[layer].name,
+        value: traitLabel(selection.traits[layer]),
+      })),
+      { trait_type: 'Rarity Score', value: score, display_type: 'number' as const },
+    ],
+  }
+}
+
+export function metadataToBlob(metadata: PFPMetadata): Blob {
+  return new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' })
+}
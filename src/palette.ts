@@ -0,0 +1,180 @@
+// Dominant colors of a PFP by median cut, and the scene theme made from them
+
+export interface PaletteColor {
+  r: number
+  g: number
+  b: number
+  // Share of the sampled pixels this color stands for, 0..1
+  population: number
+}
+
+// Colors the scene is themed with, as hex strings
+export interface SceneTheme {
+  // Particle frame colors
+  primary: string
+  secondary: string
+  // Card border and its glow
+  border: string
+  // Canvas background
+  backdrop: string
+}
+
+// The look before any PFP: lolcat pink and blue on black
+export const DEFAULT_THEME: SceneTheme = {
+  primary: '#ff6b9d',
+  secondary: '#667eea',
+  border: '#ff6b9d',
+  backdrop: '#000000',
+}
+
+// Pixels sampled per image: plenty for a palette and quick on the main thread
+const SAMPLE_SIZE = 64
+
+type Rgb = [number, number, number]
+
+// Split the box of pixels along its widest channel until there are `count` boxes,
+// then average each box. Pixels more transparent than minAlpha are skipped.
+export function extractPalette(rgba: ArrayLike<number>, count: number, minAlpha = 128): PaletteColor[] {
+  const pixels: Rgb[] = []
+  for (let i = 0; i + 3 < rgba.length; i += 4) {
+    if (rgba[i + 3] >= minAlpha) pixels.push([rgba[i], rgba[i + 1], rgba[i + 2]])
+  }
+  if (pixels.length === 0) return []
+
+  const widestChannel = (box: Rgb[]) => {
+    let best = { channel: 0, range: -1 }
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 255
+      let max = 0
+      for (const pixel of box) {
+        min = Math.min(min, pixel[channel])
+        max = Math.max(max, pixel[channel])
+      }
+      if (max - min > best.range) best = { channel, range: max - min }
+    }
+    return best
+  }
+
+  const boxes = [pixels]
+  while (boxes.length < count) {
+    // Split the box spanning the widest range of color
+    let target = -1
+    let targetSpread = { channel: 0, range: 0 }
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return
+      const spread = widestChannel(box)
+      if (spread.range > targetSpread.range) {
+        target = index
+        targetSpread = spread
+      }
+    })
+    if (target === -1) break
+
+    const box = boxes[target].sort((a, b) => a[targetSpread.channel] - b[targetSpread.channel])
+    const middle = Math.floor(box.length / 2)
+    boxes.splice(target, 1, box.slice(0, middle), box.slice(middle))
+  }
+
+  return boxes
+    .map(box => {
+      const sum = box.reduce((total, pixel) => [total[0] + pixel[0], total[1] + pixel[1], total[2] + pixel[2]], [0, 0, 0])
+      return {
+        r: Math.round(sum[0] / box.length),
+        g: Math.round(sum[1] / box.length),
+        b: Math.round(sum[2] / box.length),
+        population: box.length / pixels.length,
+      }
+    })
+    .sort((a, b) => b.population - a.population)
+}
+
+export function toHex({ r, g, b }: { r: number, g: number, b: number }): string {
+  return `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`
+}
+
+interface Hsl {
+  h: number
+  s: number
+  l: number
+}
+
+function toHsl({ r, g, b }: PaletteColor): Hsl {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255]
+  const max = Math.max(rn, gn, bn)
+  const min = Math.min(rn, gn, bn)
+  const l = (max + min) / 2
+  if (max === min) return { h: 0, s: 0, l }
+
+  const d = max - min
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+  let h
+  if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0)
+  else if (max === gn) h = (bn - rn) / d + 2
+  else h = (rn - gn) / d + 4
+  return { h: h / 6, s, l }
+}
+
+function hslToHex({ h, s, l }: Hsl): string {
+  const hue = (t: number) => {
+    const wrapped = ((t % 1) + 1) % 1
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s
+    const p = 2 * l - q
+    if (wrapped < 1 / 6) return p + (q - p) * 6 * wrapped
+    if (wrapped < 1 / 2) return q
+    if (wrapped < 2 / 3) return p + (q - p) * (2 / 3 - wrapped) * 6
+    return p
+  }
+  return toHex({ r: hue(h + 1 / 3) * 255, g: hue(h) * 255, b: hue(h - 1 / 3) * 255 })
+}
+
+// How much a color stands out: saturated, neither too dark nor too light, and
+// not a speck
+function vividness(color: PaletteColor): number {
+  const { s, l } = toHsl(color)
+  return s * (1 - Math.abs(l - 0.5) * 2) * Math.min(color.population * 20, 1)
+}
+
+function hueDistance(a: number, b: number): number {
+  const distance = Math.abs(a - b) % 1
+  return Math.min(distance, 1 - distance)
+}
+
+// Theme colors from a palette: the two most vivid colors of different hues for
+// accents, and the most common color, darkened, behind everything
+export function themeFromPalette(palette: PaletteColor[]): SceneTheme {
+  const ranked = [...palette].sort((a, b) => vividness(b) - vividness(a))
+  const accent = ranked[0]
+  // Grayscale PFPs keep the default accents
+  if (!accent || toHsl(accent).s < 0.15) return { ...DEFAULT_THEME, backdrop: backdropColor(palette[0]) }
+
+  const accentHsl = toHsl(accent)
+  const primary = hslToHex({ ...accentHsl, l: Math.min(Math.max(accentHsl.l, 0.45), 0.7) })
+  const second = ranked.slice(1).find(color => hueDistance(toHsl(color).h, accentHsl.h) > 1 / 12 && toHsl(color).s >= 0.15)
+  // Without a second hue, use a lighter neighbor of the first
+  const secondHsl = second ? toHsl(second) : { ...accentHsl, h: accentHsl.h + 0.05, l: accentHsl.l + 0.2 }
+  const secondary = hslToHex({ ...secondHsl, l: Math.min(Math.max(secondHsl.l, 0.45), 0.7) })
+
+  return { primary, secondary, border: primary, backdrop: backdropColor(palette[0]) }
+}
+
+function backdropColor(dominant: PaletteColor | undefined): string {
+  if (!dominant) return DEFAULT_THEME.backdrop
+  const { h, s } = toHsl(dominant)
+  return hslToHex({ h, s: s * 0.6, l: 0.06 })
+}
+
+// Palette of an image, from a small copy of it
+export async function imagePalette(image: Blob, count: number): Promise<PaletteColor[]> {
+  const bitmap = await createImageBitmap(image, { resizeWidth: SAMPLE_SIZE, resizeHeight: SAMPLE_SIZE, resizeQuality: 'medium' })
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = SAMPLE_SIZE
+    canvas.height = SAMPLE_SIZE
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) throw new Error('2D canvas is not available')
+    ctx.drawImage(bitmap, 0, 0)
+    return extractPalette(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data, count)
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,212 @@
+import { extractPalette } from './palette'
+
+// Baked pixel art: the PFP shrunk to a small grid, its colors snapped to a
+// retro palette, then blown back up with hard pixel edges
+
+export const PIXEL_GRIDS = [32, 64, 128] as const
+
+export type PixelGrid = typeof PIXEL_GRIDS[number]
+
+type Rgb = [number, number, number]
+
+function hexPalette(colors: string[]): Rgb[] {
+  return colors.map(hex => [
+    parseInt(hex.slice(0, 2), 16),
+    parseInt(hex.slice(2, 4), 16),
+    parseInt(hex.slice(4, 6), 16),
+  ])
+}
+
+export const PIXEL_PALETTES = [
+  {
+    id: 'gameboy',
+    label: 'Game Boy',
+    colors: hexPalette(['0f380f', '306230', '8bac0f', '9bbc0f']),
+    // Four shades of green, darkest first: matched on brightness alone
+    monochrome: true,
+  },
+  {
+    id: 'pico8',
+    label: 'PICO-8',
+    colors: hexPalette([
+      '000000', '1d2b53', '7e2553', '008751', 'ab5236', '5f574f', 'c2c3c7', 'fff1e8',
+      'ff004d', 'ffa300', 'ffec27', '00e436', '29adff', '83769c', 'ff77a8', 'ffccaa',
+    ]),
+    monochrome: false,
+  },
+  {
+    id: 'nes',
+    label: 'NES',
+    colors: hexPalette([
+      '000000', '7c7c7c', '0000fc', '0000bc', '4428bc', '940084', 'a80020', 'a81000', '881400',
+      '503000', '007800', '006800', '005800', '004058', 'bcbcbc', '0078f8', '0058f8', '6844fc',
+      'd800cc', 'e40058', 'f83800', 'e45c10', 'ac7c00', '00b800', '00a800', '00a844', '008888',
+      'f8f8f8', '3cbcfc', '6888fc', '9878f8', 'f878f8', 'f85898', 'f87858', 'fca044', 'f8b800',
+      'b8f818', '58d854', '58f898', '00e8d8', '787878', 'fcfcfc', 'a4e4fc', 'b8b8f8', 'd8b8f8',
+      'f8b8f8', 'f8a4c0', 'f0d0b0', 'fce0a8', 'f8d878', 'd8f878', 'b8f8b8', 'b8f8d8', '00fcfc',
+      'f8d8f8',
+    ]),
+    monochrome: false,
+  },
+  {
+    // Colors of the PFP itself, picked per image
+    id: 'auto',
+    label: 'Auto (16 colors)',
+    colors: null,
+    monochrome: false,
+  },
+] as const satisfies readonly { id: string, label: string, colors: Rgb[] | null, monochrome: boolean }[]
+
+export type PixelPaletteId = typeof PIXEL_PALETTES[number]['id']
+
+export interface PixelArtSettings {
+  grid: PixelGrid
+  palette: PixelPaletteId
+  dither: boolean
+}
+
+export const DEFAULT_PIXEL_ART: PixelArtSettings = { grid: 64, palette: 'pico8', dither: true }
+
+// Colors in the palette extracted for 'auto'
+const AUTO_PALETTE_SIZE = 16
+
+export function isPixelGrid(value: number): value is PixelGrid {
+  return PIXEL_GRIDS.some(grid => grid === value)
+}
+
+export function isPixelPaletteId(value: string): value is PixelPaletteId {
+  return PIXEL_PALETTES.some(palette => palette.id === value)
+}
+
+// Perceptual-ish distance: the eye is most sensitive to green, least to blue
+function colorDistance(r: number, g: number, b: number, [pr, pg, pb]: Rgb): number {
+  return 2 * (r - pr) ** 2 + 4 * (g - pg) ** 2 + 3 * (b - pb) ** 2
+}
+
+function luminance(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b
+}
+
+function nearestColor(r: number, g: number, b: number, palette: Rgb[]): Rgb {
+  let best = palette[0]
+  let bestDistance = Infinity
+  for (const color of palette) {
+    const distance = colorDistance(r, g, b, color)
+    if (distance < bestDistance) {
+      best = color
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+// Brightness each shade of a monochrome palette stands for: spread evenly from
+// black to white, so the whole range of the image is used whatever the shades
+function shadeLevel(index: number, count: number): number {
+  return count > 1 ? (index / (count - 1)) * 255 : 127.5
+}
+
+// Snap every pixel of an RGBA image to the palette, in place. Alpha becomes
+// fully on or off, like sprites. Dithering spreads each pixel's error onto its
+// neighbours (Floyd–Steinberg), skipping transparent pixels. A monochrome
+// palette (shades ordered dark to light) is matched on brightness only.
+export function quantizePixels(rgba: Uint8ClampedArray, width: number, palette: Rgb[], { dither, monochrome }: {
+  dither: boolean
+  monochrome: boolean
+}) {
+  if (palette.length === 0) return
+  const height = rgba.length / 4 / width
+  // Working copy with room for the diffused error to overshoot 0..255
+  const channels = Float32Array.from(rgba)
+
+  const spread = (x: number, y: number, error: Rgb, weight: number) => {
+    if (x < 0 || x >= width || y >= height) return
+    const index = (y * width + x) * 4
+    if (rgba[index + 3] < 128) return
+    for (let channel = 0; channel < 3; channel++) channels[index + channel] += error[channel] * weight
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4
+      if (rgba[index + 3] < 128) {
+        rgba[index + 3] = 0
+        continue
+      }
+
+      const [r, g, b] = [channels[index], channels[index + 1], channels[index + 2]]
+      let color: Rgb
+      let error: Rgb
+      if (monochrome) {
+        const brightness = luminance(r, g, b)
+        const shade = Math.min(Math.max(Math.round((brightness / 255) * (palette.length - 1)), 0), palette.length - 1)
+        color = palette[shade]
+        // Only brightness carries over
+        error = Array(3).fill(brightness - shadeLevel(shade, palette.length)) as Rgb
+      } else {
+        color = nearestColor(r, g, b, palette)
+        error = [r - color[0], g - color[1], b - color[2]]
+      }
+      rgba[index] = color[0]
+      rgba[index + 1] = color[1]
+      rgba[index + 2] = color[2]
+      rgba[index + 3] = 255
+
+      if (dither) {
+        spread(x + 1, y, error, 7 / 16)
+        spread(x - 1, y + 1, error, 3 / 16)
+        spread(x, y + 1, error, 5 / 16)
+        spread(x + 1, y + 1, error, 1 / 16)
+      }
+    }
+  }
+}
+
+// The palette colors to snap to, extracted from the image itself for 'auto'
+export function pixelArtPalette(id: PixelPaletteId, rgba: Uint8ClampedArray): { colors: Rgb[], monochrome: boolean } {
+  const { colors, monochrome } = PIXEL_PALETTES.find(palette => palette.id === id)!
+  return {
+    colors: colors ?? extractPalette(rgba, AUTO_PALETTE_SIZE).map(({ r, g, b }) => [r, g, b]),
+    monochrome,
+  }
+}
+
+// Size of the baked image: the smallest whole multiple of the grid that's at
+// least minSize, so every art pixel is the same number of screen pixels
+export function pixelArtSize(grid: PixelGrid, minSize: number): number {
+  return grid * Math.max(1, Math.ceil(minSize / grid))
+}
+
+export async function bakePixelArt(image: Blob, { grid, palette, dither }: PixelArtSettings, minSize: number): Promise<Blob> {
+  // Downsample with smoothing, so each art pixel averages the area it covers
+  const bitmap = await createImageBitmap(image, { resizeWidth: grid, resizeHeight: grid, resizeQuality: 'high' })
+  const small = document.createElement('canvas')
+  small.width = grid
+  small.height = grid
+  const smallCtx = small.getContext('2d', { willReadFrequently: true })
+  if (!smallCtx) throw new Error('2D canvas is not available')
+  try {
+    smallCtx.drawImage(bitmap, 0, 0)
+  } finally {
+    bitmap.close()
+  }
+
+  const pixels = smallCtx.getImageData(0, 0, grid, grid)
+  const { colors, monochrome } = pixelArtPalette(palette, pixels.data)
+  quantizePixels(pixels.data, grid, colors, { dither, monochrome })
+  smallCtx.putImageData(pixels, 0, 0)
+
+  // Blow it back up with hard edges
+  const size = pixelArtSize(grid, minSize)
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('2D canvas is not available')
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(small, 0, 0, size, size)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the pixel art as PNG')), 'image/png')
+  })
+}
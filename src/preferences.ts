@@ -0,0 +1,32 @@
+import { defaultLookSettings, normalizeLook, type LookSettings } from './looks'
+
+// Settings that carry over between sessions, kept in localStorage
+
+export interface Preferences {
+  look: LookSettings
+}
+
+const STORAGE_KEY = 'lolcat-pfp:preferences'
+
+export function loadPreferences(): Preferences {
+  const defaults: Preferences = { look: defaultLookSettings() }
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    if (!stored || typeof stored !== 'object') return defaults
+    const look = stored.look
+    return {
+      look: look && typeof look === 'object' ? normalizeLook(String(look.id), look.params) : defaults.look,
+    }
+  } catch {
+    // Storage blocked or unreadable: start from the defaults
+    return defaults
+  }
+}
+
+export function savePreferences(changes: Partial<Preferences>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadPreferences(), ...changes }))
+  } catch (error) {
+    console.error('❌ Could not save preferences:', error)
+  }
+}
@@ -0,0 +1,37 @@
+// Seeded random number generation so a PFP can always be reproduced from its seed
+
+// A random source returning floats in [0, 1), same contract as Math.random
+export type Rng = () => number
+
+// Hash a seed string into a 32-bit integer (FNV-1a)
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Create a deterministic generator (mulberry32) for the given seed
+export function createRng(seed: string): Rng {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Generate a fresh, short seed that is easy to read and type back in
+export function generateSeed(): string {
+  const value = crypto.getRandomValues(new Uint32Array(1))[0]
+  return value.toString(36).padStart(7, '0')
+}
+
+// Pick a uniformly random element
+export function pick<T>(rng: Rng, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)]
+}
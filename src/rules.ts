@@ -0,0 +1,115 @@
+import { isMandatoryLayer, LAYER_CONFIG, type LayerId } from './layers'
+
+// Declarative trait compatibility rules. Traits are referenced as "<layer>/<file>",
+// e.g. "z4/z4_head_002.png"; generated backgrounds are "backgrounds/gradient" and
+// "backgrounds/solid".
+export type TraitRule =
+  // The two traits never appear together
+  | { type: 'excludes', trait: string, excludes: string }
+  // The trait only appears when the other trait is also picked
+  | { type: 'requires', trait: string, requires: string }
+  // The trait turns a whole layer off, even a mandatory one
+  | { type: 'disablesLayer', trait: string, layer: LayerId }
+
+export interface TraitRef {
+  layer: LayerId
+  trait: string
+}
+
+// Partially or fully decided traits; undefined means the layer is not decided yet
+export type PartialTraits = Partial<Record<LayerId, string | null>>
+
+export class TraitRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TraitRuleError'
+  }
+}
+
+const GENERATED_BACKGROUND_TRAITS = ['gradient', 'solid']
+
+export function parseTraitRef(ref: string): TraitRef {
+  const [layer, trait] = ref.split('/', 2)
+  if (!(layer in LAYER_CONFIG) || !trait) {
+    throw new TraitRuleError(`Invalid trait reference "${ref}" - expected "<layer>/<file>"`)
+  }
+  return { layer: layer as LayerId, trait }
+}
+
+function describeRule(rule: TraitRule): string {
+  switch (rule.type) {
+    case 'excludes': return `${rule.trait} excludes ${rule.excludes}`
+    case 'requires': return `${rule.trait} requires ${rule.requires}`
+    case 'disablesLayer': return `${rule.trait} turns off ${rule.layer}`
+  }
+}
+
+// Make sure every rule points at layers and trait files that actually exist
+export function validateRules(rules: readonly TraitRule[], availableFiles: Record<string, string[]>) {
+  const checkRef = (ref: string, rule: TraitRule) => {
+    const { layer, trait } = parseTraitRef(ref)
+    const known = (availableFiles[layer] || []).includes(trait) ||
+      (layer === 'backgrounds' && GENERATED_BACKGROUND_TRAITS.includes(trait))
+    if (!known) {
+      throw new TraitRuleError(`Rule "${describeRule(rule)}" refers to unknown trait ${ref}`)
+    }
+  }
+
+  for (const rule of rules) {
+    checkRef(rule.trait, rule)
+    if (rule.type === 'excludes') checkRef(rule.excludes, rule)
+    if (rule.type === 'requires') checkRef(rule.requires, rule)
+    if (rule.type === 'disablesLayer' && !(rule.layer in LAYER_CONFIG)) {
+      throw new TraitRuleError(`Rule "${describeRule(rule)}" refers to unknown layer ${rule.layer}`)
+    }
+  }
+}
+
+function hasTrait(traits: PartialTraits, ref: TraitRef): boolean {
+  return traits[ref.layer] === ref.trait
+}
+
+// Whether the given layer is forced off by one of the picked traits
+export function isLayerDisabled(traits: PartialTraits, layer: LayerId, rules: readonly TraitRule[]): boolean {
+  return rules.some(rule =>
+    rule.type === 'disablesLayer' && rule.layer === layer && hasTrait(traits, parseTraitRef(rule.trait))
+  )
+}
+
+// Rules broken by the traits picked so far. Undecided layers never count as a
+// violation, so this can prune a partial selection; pass complete = true once
+// every layer is decided to also check "requires" and mandatory layers.
+export function findViolations(
+  traits: PartialTraits,
+  rules: readonly TraitRule[],
+  availableFiles: Record<string, string[]>,
+  complete = false
+): string[] {
+  const violations: string[] = []
+
+  for (const rule of rules) {
+    const source = parseTraitRef(rule.trait)
+    if (!hasTrait(traits, source)) continue
+
+    if (rule.type === 'excludes') {
+      if (hasTrait(traits, parseTraitRef(rule.excludes))) violations.push(describeRule(rule))
+    } else if (rule.type === 'requires') {
+      const target = parseTraitRef(rule.requires)
+      const decided = traits[target.layer] !== undefined
+      if ((decided || complete) && !hasTrait(traits, target)) violations.push(describeRule(rule))
+    } else if (traits[rule.layer]) {
+      violations.push(describeRule(rule))
+    }
+  }
+
+  if (complete) {
+    for (const layer of Object.keys(LAYER_CONFIG) as LayerId[]) {
+      const hasFiles = (availableFiles[layer] || []).length > 0
+      if (isMandatoryLayer(layer) && hasFiles && !traits[layer] && !isLayerDisabled(traits, layer, rules)) {
+        violations.push(`mandatory layer ${layer} is missing`)
+      }
+    }
+  }
+
+  return violations
+}
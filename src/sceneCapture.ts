@@ -0,0 +1,232 @@
+import { createElement, Fragment, useEffect, type ReactNode } from 'react'
+import * as THREE from 'three'
+import { createRoot, type RootState } from '@react-three/fiber'
+import { pfpFileBase } from './metadata'
+
+// Captures of the 3D scene, post-processing and particles included: stills at
+// any resolution and short WebM clips. A capture draws the live scene again on
+// a canvas of its own at the chosen size, so the live view keeps its shape.
+// While one runs the live frame loop is paused and scene time only moves when
+// the capture steps it, so every frame shows exactly 1/fps after the last
+// however long it takes to render.
+
+export const CAPTURE_RESOLUTIONS = [
+  { id: 'square-1080', label: '1080 × 1080', width: 1080, height: 1080 },
+  { id: 'square-2160', label: '2160 × 2160', width: 2160, height: 2160 },
+  { id: 'landscape-1080', label: '1920 × 1080', width: 1920, height: 1080 },
+  { id: 'landscape-2160', label: '3840 × 2160', width: 3840, height: 2160 },
+  { id: 'portrait-1920', label: '1080 × 1920 (story)', width: 1080, height: 1920 },
+] as const
+
+export type CaptureResolution = typeof CAPTURE_RESOLUTIONS[number]
+export type CaptureResolutionId = CaptureResolution['id']
+
+export const CLIP_KINDS = [
+  // One full turn of the card
+  { id: 'turntable', label: 'Turntable', duration: 4 },
+  // A new PFP spinning in, with a moment before and after
+  { id: 'spin', label: 'Generation spin', duration: 3 },
+] as const
+
+export type ClipKind = typeof CLIP_KINDS[number]['id']
+
+export const CLIP_FPS = 30
+
+// Seconds of the spin clip before the new PFP comes in
+export const SPIN_CLIP_LEAD_IN = 0.4
+
+// Recorded with the first type the browser supports
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+// Bits per pixel per frame, about 8 Mbit/s at 1080p30
+const VIDEO_BITS_PER_PIXEL = 0.13
+
+// What a capture needs from the live scene
+export interface CaptureTarget {
+  // State of the live canvas, whose animations the capture steps through
+  getState: () => RootState
+  // The live view's lighting environment and post-processing, set up to draw
+  // the given scene and camera from another canvas
+  view: (scene: THREE.Scene, camera: THREE.Camera) => ReactNode
+}
+
+// What a clip does on top of time passing, set up before recording starts
+export interface ClipScript {
+  // Called before each frame renders. A returned promise holds the frame back
+  // until the scene has caught up with what was done.
+  onFrame?: (frame: number, frameCount: number) => void | Promise<void>
+  // Called once the clip is over, recorded or not
+  finish?: () => void
+}
+
+export function isCaptureResolutionId(value: string): value is CaptureResolutionId {
+  return CAPTURE_RESOLUTIONS.some(resolution => resolution.id === value)
+}
+
+export function isClipKind(value: string): value is ClipKind {
+  return CLIP_KINDS.some(kind => kind.id === value)
+}
+
+export function clipDuration(kind: ClipKind): number {
+  return CLIP_KINDS.find(candidate => candidate.id === kind)!.duration
+}
+
+export function captureResolution(id: CaptureResolutionId): CaptureResolution {
+  return CAPTURE_RESOLUTIONS.find(resolution => resolution.id === id)!
+}
+
+// e.g. lolcat-abc123-card-1080x1080.png or lolcat-abc123-turntable-1920x1080.webm
+export function captureFileName(seed: string | null, what: 'card' | ClipKind, { width, height }: CaptureResolution): string {
+  const extension = what === 'card' ? 'png' : 'webm'
+  return `${seed ? pfpFileBase(seed) : 'lolcat'}-${what}-${width}x${height}.${extension}`
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Calls back once the capture's view is set up
+function Mounted({ onMounted }: { onMounted: () => void }) {
+  useEffect(onMounted, [onMounted])
+  return null
+}
+
+interface CaptureView {
+  canvas: HTMLCanvasElement
+  // Scene time the capture starts at
+  startTime: number
+  // Step the live scene to a point in time and draw it on `canvas`
+  render: (time: number) => void
+}
+
+// Set up a canvas at the capture size that draws the live scene through a copy
+// of its camera, with the live frame loop paused while `run` goes
+async function withCaptureView<T>(
+  { getState, view }: CaptureTarget,
+  width: number,
+  height: number,
+  run: (view: CaptureView) => Promise<T>
+): Promise<T> {
+  const live = getState()
+  const liveCamera = live.camera
+  if (!(liveCamera instanceof THREE.PerspectiveCamera)) throw new Error('Captures need a perspective camera')
+  const { frameloop } = live
+  const startTime = live.clock.elapsedTime
+
+  const canvas = document.createElement('canvas')
+  const root = createRoot(canvas)
+  const camera = new THREE.PerspectiveCamera()
+
+  // Switching the frame loop resets the clock, carry on from where it was
+  live.setFrameloop('never')
+  live.clock.elapsedTime = startTime
+  try {
+    await root.configure({
+      // Frames are read back after they're drawn
+      gl: { preserveDrawingBuffer: true },
+      shadows: { enabled: live.gl.shadowMap.enabled, type: live.gl.shadowMap.type },
+      size: { width, height, top: 0, left: 0 },
+      dpr: 1,
+      frameloop: 'never',
+    })
+    let onMounted!: () => void
+    const mounted = new Promise<void>(resolve => {
+      onMounted = resolve
+    })
+    const capture = root.render(createElement(
+      Fragment,
+      null,
+      view(live.scene, camera),
+      createElement(Mounted, { onMounted })
+    ))
+    await mounted
+    capture.getState().clock.elapsedTime = startTime
+
+    return await run({
+      canvas,
+      startTime,
+      render: time => {
+        live.advance(time)
+        camera.copy(liveCamera, false)
+        camera.aspect = width / height
+        camera.updateProjectionMatrix()
+        capture.getState().advance(time)
+      },
+    })
+  } finally {
+    root.unmount()
+    const endTime = live.clock.elapsedTime
+    live.setFrameloop(frameloop)
+    live.clock.elapsedTime = endTime
+    // The loop stopped while paused and only starts again when asked for a frame
+    live.invalidate()
+  }
+}
+
+// The scene as it is on screen right now, at another resolution
+export function captureStill(target: CaptureTarget, width: number, height: number): Promise<Blob> {
+  return withCaptureView(target, width, height, async ({ canvas, startTime, render }) => {
+    // No time passes, so nothing moves on from what's on screen
+    render(startTime)
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the capture as PNG')), 'image/png')
+    })
+  })
+}
+
+export interface RecordClipOptions {
+  width: number
+  height: number
+  duration: number
+  fps?: number
+  onFrame?: ClipScript['onFrame']
+  onProgress?: (done: number, total: number) => void
+}
+
+// Record a fixed-length WebM clip, frame by frame. Scene time comes from the
+// frame number alone, and the recorder only takes a frame when one is asked
+// for, once it has rendered. Frames are spaced 1/fps apart in real time, so
+// the clip plays at its own speed as long as rendering keeps up.
+export function recordClip(
+  target: CaptureTarget,
+  { width, height, duration, fps = CLIP_FPS, onFrame, onProgress }: RecordClipOptions
+): Promise<Blob> {
+  const mimeType = typeof MediaRecorder === 'undefined'
+    ? undefined
+    : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+  if (!mimeType) return Promise.reject(new Error("This browser can't record WebM video"))
+
+  return withCaptureView(target, width, height, async ({ canvas, startTime, render }) => {
+    const stream = canvas.captureStream(0)
+    const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[]
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: Math.round(width * height * fps * VIDEO_BITS_PER_PIXEL),
+    })
+    const chunks: Blob[] = []
+    recorder.addEventListener('dataavailable', event => {
+      if (event.data.size > 0) chunks.push(event.data)
+    })
+    const stopped = new Promise<void>(resolve => recorder.addEventListener('stop', () => resolve(), { once: true }))
+
+    const frameCount = Math.round(duration * fps)
+    recorder.start()
+    const recordingStart = performance.now()
+    try {
+      for (let frame = 0; frame < frameCount; frame++) {
+        await onFrame?.(frame, frameCount)
+        render(startTime + frame / fps)
+        track.requestFrame()
+        // Hold the frame until the next one is due
+        await wait(recordingStart + ((frame + 1) * 1000) / fps - performance.now())
+        onProgress?.(frame + 1, frameCount)
+      }
+    } finally {
+      recorder.stop()
+      track.stop()
+    }
+    await stopped
+
+    return new Blob(chunks, { type: 'video/webm' })
+  })
+}
@@ -0,0 +1,94 @@
+import { isGeneratedCSSBackground, type CSSBackground } from './background'
+import { LAYER_ORDER } from './layers'
+import { decodeLookParams, encodeLookParams, normalizeLook, type LookSettings } from './looks'
+import type { GeneratedTraits, TraitSelection } from './traits'
+
+// Links to a PFP and the look it's shown with: ?seed=…&look=crt&lookParams=density:1.25,…
+// A PFP made with locked or hand-picked traits isn't what its seed alone rolls,
+// so its link also spells out every trait (- for a layer left out) and the
+// generated background: &traits=backgrounds:gradient,z0:z0_lolcat.png,z1:-,…&background=…
+// Links naming an unknown trait or a background this app doesn't generate are ignored.
+
+export interface SharedState {
+  seed: string | null
+  // Every trait of the PFP, when the seed alone doesn't reproduce it
+  selection: GeneratedTraits | null
+  look: LookSettings | null
+}
+
+// Stands for a layer that's left out
+const NO_TRAIT = '-'
+
+function encodeTraits(traits: TraitSelection): string {
+  return LAYER_ORDER.map(layer => `${layer}:${traits[layer] ?? NO_TRAIT}`).join(',')
+}
+
+// The selection a link spells out, or null unless it names a known trait (or
+// none) for every layer
+function decodeSelection(
+  encodedTraits: string,
+  background: string | null,
+  availableFiles: Record<string, string[]>
+): GeneratedTraits | null {
+  const pairs = new Map(encodedTraits.split(',').map(pair => {
+    const separator = pair.indexOf(':')
+    return [pair.slice(0, separator), pair.slice(separator + 1)]
+  }))
+
+  const traits: Partial<TraitSelection> = {}
+  let cssBackground: CSSBackground | null = null
+  for (const layer of LAYER_ORDER) {
+    const value = pairs.get(layer)
+    if (value === undefined) return null
+    if (value === NO_TRAIT) {
+      traits[layer] = null
+      continue
+    }
+    if (layer === 'backgrounds' && (value === 'gradient' || value === 'solid')) {
+      if (!background) return null
+      cssBackground = { type: value, value: background }
+      if (!isGeneratedCSSBackground(cssBackground)) return null
+    } else if (!availableFiles[layer]?.includes(value)) {
+      return null
+    }
+    traits[layer] = value
+  }
+
+  return { traits: traits as TraitSelection, cssBackground }
+}
+
+export function readShareLink(search: string, availableFiles: Record<string, string[]>): SharedState {
+  const params = new URLSearchParams(search)
+  const look = params.get('look')
+  const traits = params.get('traits')
+  return {
+    seed: params.get('seed')?.trim() || null,
+    selection: traits ? decodeSelection(traits, params.get('background'), availableFiles) : null,
+    look: look ? normalizeLook(look, decodeLookParams(params.get('lookParams') ?? '')) : null,
+  }
+}
+
+// The link for a state, keeping any other query parameters (like ?debug) of
+// the current URL. Without a seed, the URL's seed is left as it is.
+export function shareLinkUrl(currentUrl: string, { seed, selection, look }: SharedState): string {
+  const url = new URL(currentUrl)
+  if (seed) url.searchParams.set('seed', seed)
+  if (selection) {
+    url.searchParams.set('traits', encodeTraits(selection.traits))
+    if (selection.cssBackground) url.searchParams.set('background', selection.cssBackground.value)
+    else url.searchParams.delete('background')
+  } else if (seed) {
+    url.searchParams.delete('traits')
+    url.searchParams.delete('background')
+  }
+  if (look) {
+    url.searchParams.set('look', look.id)
+    const encodedParams = encodeLookParams(look)
+    if (encodedParams) url.searchParams.set('lookParams', encodedParams)
+    else url.searchParams.delete('lookParams')
+  } else {
+    url.searchParams.delete('look')
+    url.searchParams.delete('lookParams')
+  }
+  return url.toString()
+}
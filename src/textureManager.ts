@@ -0,0 +1,62 @@
+import * as THREE from 'three'
+
+// Owns the textures shown on the PFP card: builds them straight from the
+// composited PNG and frees their GPU memory once they're off screen
+
+export class TextureManager {
+  private readonly live = new Set<THREE.Texture>()
+  // Built but not handed to the card yet, so they can't be unused
+  private readonly pending = new Set<THREE.Texture>()
+
+  async fromBlob(blob: Blob): Promise<THREE.Texture> {
+    // ImageBitmaps ignore texture.flipY, so flip while decoding instead
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'flipY' })
+    const texture = new THREE.Texture(bitmap)
+    texture.flipY = false
+    texture.wrapS = THREE.ClampToEdgeWrapping
+    texture.wrapT = THREE.ClampToEdgeWrapping
+    texture.needsUpdate = true
+    this.live.add(texture)
+    this.pending.add(texture)
+    return texture
+  }
+
+  // The card has taken these, from now on they go once they're unused
+  adopt(textures: THREE.Texture[]) {
+    textures.forEach(texture => this.pending.delete(texture))
+  }
+
+  release(texture: THREE.Texture) {
+    if (!this.live.delete(texture)) return
+    this.pending.delete(texture)
+    texture.dispose()
+    if (texture.image instanceof ImageBitmap) texture.image.close()
+  }
+
+  // Release every texture except the ones still in use or not handed over yet
+  releaseUnused(inUse: (THREE.Texture | null)[]) {
+    for (const texture of [...this.live]) {
+      if (!inUse.includes(texture) && !this.pending.has(texture)) this.release(texture)
+    }
+  }
+
+  releaseAll() {
+    for (const texture of [...this.live]) this.release(texture)
+  }
+
+  get count(): number {
+    return this.live.size
+  }
+
+  // RGBA8 plus a third again for mipmaps
+  get estimatedBytes(): number {
+    let bytes = 0
+    for (const texture of this.live) {
+      const { width, height } = texture.image as ImageBitmap
+      bytes += Math.round(width * height * 4 * (texture.generateMipmaps ? 4 / 3 : 1))
+    }
+    return bytes
+  }
+}
+
+export const textureManager = new TextureManager()
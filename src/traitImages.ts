@@ -0,0 +1,41 @@
+import { cachedLoader, traitPath, type TraitImageLoader } from './compositor'
+import { LAYER_ORDER } from './layers'
+
+// Decoded trait images for the browser, shared by every composite in the session
+
+// Fetch an image and decode it to an ImageBitmap, which draws without any further decoding
+export async function loadImageBitmap(src: string): Promise<ImageBitmap> {
+  const response = await fetch(src)
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+  return createImageBitmap(await response.blob())
+}
+
+// Every trait is fetched and decoded at most once
+export const loadTraitImage: TraitImageLoader<ImageBitmap> = cachedLoader(
+  (layer, file) => loadImageBitmap(traitPath(layer, file))
+)
+
+// Load every trait in parallel, reporting progress as each one finishes.
+// Resolves with the number of files that failed to load.
+export async function preloadTraitImages(
+  availableFiles: Record<string, string[]>,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<number> {
+  const traits = LAYER_ORDER.flatMap(layer => (availableFiles[layer] ?? []).map(file => ({ layer, file })))
+  let loaded = 0
+  let failed = 0
+  onProgress?.(0, traits.length)
+
+  await Promise.all(traits.map(async ({ layer, file }) => {
+    try {
+      await loadTraitImage(layer, file)
+    } catch (error) {
+      failed++
+      console.error(`Failed to load image: ${traitPath(layer, file)}`, error)
+    }
+    loaded++
+    onProgress?.(loaded, traits.length)
+  }))
+
+  return failed
+}
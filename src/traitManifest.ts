@@ -0,0 +1,12 @@
+// Trait manifest produced at build time by the Vite config (see scripts/traitManifest.ts)
+// and served to the app as the `virtual:trait-manifest` module
+
+// A single trait image inside public/pfp/<layer>/
+export interface TraitFile {
+  file: string
+  width: number
+  height: number
+}
+
+// Every trait file, keyed by layer folder name and sorted by filename
+export type TraitManifest = Record<string, TraitFile[]>
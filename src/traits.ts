@@ -0,0 +1,292 @@
+import { generateCSSBackground, GRADIENT_CHANCE, type CSSBackground } from './background'
+import {
+  GENERATED_BACKGROUND_WEIGHT,
+  LAYER_ORDER,
+  layerProbability,
+  RARITY_TIERS,
+  TRAIT_RULES,
+  traitWeight,
+  type LayerId,
+} from './layers'
+import type { Rng } from './random'
+import {
+  findViolations,
+  isLayerDisabled,
+  TraitRuleError,
+  validateRules,
+  type PartialTraits,
+  type TraitRule,
+} from './rules'
+
+// Trait chosen for each layer: a PNG filename, or null when the layer is left out.
+// The background layer uses 'gradient' or 'solid' for generated backgrounds.
+export type TraitSelection = Record<LayerId, string | null>
+
+export interface GeneratedTraits {
+  traits: TraitSelection
+  cssBackground: CSSBackground | null
+}
+
+export interface SelectTraitsOptions {
+  // Layers that keep a fixed value instead of being rolled (null keeps a layer off)
+  locked?: PartialTraits
+  // Generated background to keep when the background layer is locked to its type
+  lockedCSSBackground?: CSSBackground | null
+  rules?: readonly TraitRule[]
+}
+
+export interface TraitRarity {
+  layer: LayerId
+  value: string | null
+  probability: number
+}
+
+export type RarityTier = typeof RARITY_TIERS[number]
+
+export interface RarityReport {
+  // Sum of 1/probability over all layers - higher means rarer
+  score: number
+  tier: RarityTier
+  traits: TraitRarity[]
+}
+
+// Pick one item with probability proportional to its weight
+export function pickWeighted<T>(rng: Rng, items: readonly T[], weight: (item: T) => number): T {
+  const total = items.reduce((sum, item) => sum + weight(item), 0)
+  let roll = rng() * total
+  for (const item of items) {
+    roll -= weight(item)
+    if (roll < 0) return item
+  }
+  return items[items.length - 1]
+}
+
+// Background options: every PNG plus one slot for a generated background
+const GENERATED_BACKGROUND = null
+
+function backgroundWeight(file: string | null): number {
+  return file === GENERATED_BACKGROUND ? GENERATED_BACKGROUND_WEIGHT : traitWeight('backgrounds', file)
+}
+
+interface TraitOption {
+  value: string | null
+  weight: number
+}
+
+// Every value a layer can take, weighted by its overall chance of being picked
+function layerOptions(
+  layer: LayerId,
+  availableFiles: Record<string, string[]>,
+  rules: readonly TraitRule[] = []
+): TraitOption[] {
+  const layerFiles = availableFiles[layer] || []
+  const included = layerProbability(layer)
+
+  // Layers without any files are always left out
+  if (layer !== 'backgrounds' && layerFiles.length === 0) {
+    return [{ value: null, weight: 1 }]
+  }
+
+  // Mandatory layers can only be left out when a rule turns them off, and only as a last resort
+  const canBeDisabled = rules.some(rule => rule.type === 'disablesLayer' && rule.layer === layer)
+  const options: TraitOption[] = included < 1 || canBeDisabled ? [{ value: null, weight: 1 - included }] : []
+
+  if (layer === 'backgrounds') {
+    const total = [...layerFiles, GENERATED_BACKGROUND].reduce((sum, file) => sum + backgroundWeight(file), 0)
+    const generatedShare = included * (GENERATED_BACKGROUND_WEIGHT / total)
+    options.push(
+      ...layerFiles.map(file => ({ value: file, weight: included * (backgroundWeight(file) / total) })),
+      { value: 'gradient', weight: generatedShare * GRADIENT_CHANCE },
+      { value: 'solid', weight: generatedShare * (1 - GRADIENT_CHANCE) },
+    )
+  } else {
+    const total = layerFiles.reduce((sum, file) => sum + traitWeight(layer, file), 0)
+    options.push(...layerFiles.map(file => ({ value: file, weight: included * (traitWeight(layer, file) / total) })))
+  }
+
+  return options
+}
+
+// Order options by weighted sampling without replacement, so the first option
+// follows the configured odds and the rest are fallbacks if rules reject it.
+// Zero-weight options always come last.
+function weightedOrder(rng: Rng, options: TraitOption[]): (string | null)[] {
+  const remaining = options.filter(option => option.weight > 0)
+  const ordered: (string | null)[] = []
+  while (remaining.length > 0) {
+    const choice = pickWeighted(rng, remaining, option => option.weight)
+    remaining.splice(remaining.indexOf(choice), 1)
+    ordered.push(choice.value)
+  }
+  return [...ordered, ...options.filter(option => option.weight <= 0).map(option => option.value)]
+}
+
+// Options for every layer in z-index order, with locked layers pinned to their value
+function selectionOptions(
+  availableFiles: Record<string, string[]>,
+  locked: PartialTraits,
+  rules: readonly TraitRule[]
+): TraitOption[][] {
+  return LAYER_ORDER.map(layer => {
+    const lockedValue = locked[layer]
+    return lockedValue !== undefined
+      ? [{ value: lockedValue, weight: 1 }]
+      : layerOptions(layer, availableFiles, rules)
+  })
+}
+
+// Roll every unlocked layer in z-index order and pick a weighted trait for each one,
+// backtracking whenever a pick breaks one of the compatibility rules
+export function selectTraits(
+  rng: Rng,
+  availableFiles: Record<string, string[]>,
+  { locked = {}, lockedCSSBackground = null, rules = TRAIT_RULES }: SelectTraitsOptions = {}
+): GeneratedTraits {
+  validateRules(rules, availableFiles)
+
+  const options = selectionOptions(availableFiles, locked, rules)
+  const picked: PartialTraits = {}
+
+  // Rules that stopped the search furthest along, reported if nothing fits
+  let deepestIndex = -1
+  const blockingRules = new Set<string>()
+
+  const search = (index: number): boolean => {
+    const complete = index === LAYER_ORDER.length
+    const violations = findViolations(picked, rules, availableFiles, complete)
+    if (violations.length > 0) {
+      if (index > deepestIndex) {
+        deepestIndex = index
+        blockingRules.clear()
+      }
+      if (index === deepestIndex) violations.forEach(violation => blockingRules.add(violation))
+      return false
+    }
+    if (complete) return true
+
+    const layer = LAYER_ORDER[index]
+    for (const value of weightedOrder(rng, options[index])) {
+      picked[layer] = value
+      if (search(index + 1)) return true
+    }
+    delete picked[layer]
+    return false
+  }
+
+  if (!search(0)) {
+    throw new TraitRuleError(
+      `No PFP satisfies the trait rules - every combination breaks: ${[...blockingRules].join('; ')}`
+    )
+  }
+
+  const traits = picked as TraitSelection
+  const background = traits.backgrounds
+  let cssBackground: CSSBackground | null = null
+  if (background === 'gradient' || background === 'solid') {
+    const keepLocked = locked.backgrounds === background && lockedCSSBackground?.type === background
+    cssBackground = keepLocked && lockedCSSBackground ? lockedCSSBackground : generateCSSBackground(rng, background)
+  }
+
+  return { traits, cssBackground }
+}
+
+// Visit every distinct trait combination the layers can produce under the rules
+// and locks, in a fixed order. Return false from visit to stop early.
+export function forEachCombination(
+  availableFiles: Record<string, string[]>,
+  { locked = {}, rules = TRAIT_RULES }: Pick<SelectTraitsOptions, 'locked' | 'rules'>,
+  visit: (traits: TraitSelection) => boolean
+) {
+  validateRules(rules, availableFiles)
+
+  const options = selectionOptions(availableFiles, locked, rules)
+  const picked: PartialTraits = {}
+  let stopped = false
+
+  const walk = (index: number) => {
+    if (stopped) return
+    const complete = index === LAYER_ORDER.length
+    if (findViolations(picked, rules, availableFiles, complete).length > 0) return
+    if (complete) {
+      stopped = !visit({ ...picked } as TraitSelection)
+      return
+    }
+
+    const layer = LAYER_ORDER[index]
+    for (const option of options[index]) {
+      picked[layer] = option.value
+      walk(index + 1)
+    }
+    delete picked[layer]
+  }
+
+  walk(0)
+}
+
+// Number of distinct trait combinations, counting no further than limit
+export function countCombinations(
+  availableFiles: Record<string, string[]>,
+  options: Pick<SelectTraitsOptions, 'locked' | 'rules'> = {},
+  limit = Infinity
+): number {
+  let count = 0
+  forEachCombination(availableFiles, options, () => ++count < limit)
+  return count
+}
+
+// Identity of a trait combination. Generated backgrounds count by type
+// (gradient/solid), not by their random colors.
+export function traitKey(traits: TraitSelection): string {
+  return LAYER_ORDER.map(layer => `${layer}=${traits[layer] ?? ''}`).join('|')
+}
+
+// Human readable name of a trait value
+export function traitLabel(value: string | null): string {
+  if (value === null) return 'None'
+  if (value === 'gradient') return 'Gradient'
+  if (value === 'solid') return 'Solid Color'
+  return value.replace(/\.png$/i, '')
+}
+
+// Values a layer can be set to by hand: its files, generated backgrounds,
+// and None for layers that may be left out
+export function layerChoices(
+  layer: LayerId,
+  availableFiles: Record<string, string[]>,
+  rules: readonly TraitRule[] = TRAIT_RULES
+): (string | null)[] {
+  return layerOptions(layer, availableFiles, rules).map(option => option.value)
+}
+
+// Probability of one layer ending up with the given trait, ignoring rules
+export function traitProbability(layer: LayerId, value: string | null, availableFiles: Record<string, string[]>): number {
+  const option = layerOptions(layer, availableFiles).find(option => option.value === value)
+  return option?.weight ?? 0
+}
+
+// Rarity of a generated PFP, computed from the traits it used. A layer turned off
+// by a rule adds nothing - the trait that turned it off already counts.
+export function computeRarity(
+  traits: TraitSelection,
+  availableFiles: Record<string, string[]>,
+  rules: readonly TraitRule[] = TRAIT_RULES
+): RarityReport {
+  const traitRarities = LAYER_ORDER.map(layer => ({
+    layer,
+    value: traits[layer],
+    probability: traits[layer] === null && isLayerDisabled(traits, layer, rules)
+      ? 1.0
+      : traitProbability(layer, traits[layer], availableFiles),
+  }))
+
+  const score = traitRarities.reduce(
+    (sum, trait) => sum + (trait.probability > 0 ? 1 / trait.probability : 0),
+    0
+  )
+
+  return { score, tier: rarityTier(score), traits: traitRarities }
+}
+
+export function rarityTier(score: number): RarityTier {
+  return RARITY_TIERS.find(tier => score >= tier.minScore) ?? RARITY_TIERS[RARITY_TIERS.length - 1]
+}
@@ -0,0 +1,192 @@
+import * as THREE from 'three'
+
+// Shader transitions between two PFPs on the card. Each transition is a GLSL
+// function blending the old (`getFromColor`) and new (`getToColor`) texture by
+// `uProgress`, injected into the card's lit material so it keeps its look.
+
+export interface PFPTransition {
+  id: string
+  label: string
+  // Body of `vec4 transition(vec2 uv)`
+  glsl: string
+}
+
+export const TRANSITIONS = [
+  {
+    id: 'crossfade',
+    label: 'Crossfade',
+    glsl: `
+      return mix(getFromColor(uv), getToColor(uv), uProgress);
+    `,
+  },
+  {
+    id: 'dissolve',
+    label: 'Noise Dissolve',
+    glsl: `
+      float n = pfpNoise(uv * 10.0) * 0.75 + pfpNoise(uv * 40.0) * 0.25;
+      float edge = 0.06;
+      float t = smoothstep(n - edge, n + edge, uProgress * (1.0 + 2.0 * edge) - edge);
+      // Hot pink rim along the dissolving edge
+      float rim = (1.0 - abs(t * 2.0 - 1.0)) * step(0.001, uProgress) * step(uProgress, 0.999);
+      return mix(getFromColor(uv), getToColor(uv), t) + vec4(1.0, 0.42, 0.62, 0.0) * rim;
+    `,
+  },
+  {
+    id: 'pixelate',
+    label: 'Pixel Blocks',
+    glsl: `
+      // Break the old PFP into blocks, swap at the midpoint, then resolve the new one
+      float amount = 1.0 - abs(uProgress * 2.0 - 1.0);
+      float blocks = mix(256.0, 10.0, amount);
+      vec2 blockUv = amount > 0.01 ? (floor(uv * blocks) + 0.5) / blocks : uv;
+      return mix(getFromColor(blockUv), getToColor(blockUv), smoothstep(0.45, 0.55, uProgress));
+    `,
+  },
+  {
+    id: 'radial',
+    label: 'Radial Wipe',
+    glsl: `
+      // Clockwise sweep from 12 o'clock
+      vec2 d = uv - 0.5;
+      float angle = atan(d.x, d.y) / (2.0 * PI) + 0.5;
+      float t = smoothstep(angle, angle + 0.02, uProgress * 1.02);
+      return mix(getFromColor(uv), getToColor(uv), t);
+    `,
+  },
+  {
+    id: 'glitch',
+    label: 'Glitch Slices',
+    glsl: `
+      // Horizontal slices jump sideways and switch over at random moments
+      float slice = floor(uv.y * 24.0);
+      float r = pfpHash(vec2(slice, 0.0));
+      float intensity = sin(uProgress * PI);
+      vec2 shifted = vec2(clamp(uv.x + (r - 0.5) * 0.3 * intensity, 0.0, 1.0), uv.y);
+      vec2 split = vec2(0.015 * intensity, 0.0);
+      float swap = step(r * 0.9 + 0.05, uProgress);
+      vec4 color = mix(getFromColor(shifted), getToColor(shifted), swap);
+      color.r = mix(getFromColor(shifted + split), getToColor(shifted + split), swap).r;
+      color.b = mix(getFromColor(shifted - split), getToColor(shifted - split), swap).b;
+      return color;
+    `,
+  },
+  {
+    id: 'flip',
+    label: 'Card Flip',
+    glsl: `
+      // The face narrows as it turns away, and the new PFP is on the other side
+      float width = abs(cos(uProgress * PI));
+      float x = (uv.x - 0.5) / max(width, 0.0001) + 0.5;
+      if (x < 0.0 || x > 1.0) return vec4(0.4, 0.494, 0.918, 1.0);
+      vec2 faceUv = vec2(x, uv.y);
+      vec4 face = uProgress < 0.5 ? getFromColor(faceUv) : getToColor(faceUv);
+      return vec4(face.rgb * (0.55 + 0.45 * width), face.a);
+    `,
+  },
+] as const satisfies readonly PFPTransition[]
+
+export type TransitionId = typeof TRANSITIONS[number]['id']
+export type TransitionChoice = TransitionId | 'random'
+
+export const DEFAULT_TRANSITION: TransitionChoice = 'crossfade'
+
+export function isTransitionChoice(value: string): value is TransitionChoice {
+  return value === 'random' || TRANSITIONS.some(transition => transition.id === value)
+}
+
+// Turn the user's choice into the transition to play. Purely visual, so it
+// doesn't use the seeded generator.
+export function resolveTransition(choice: TransitionChoice, random: () => number = Math.random): TransitionId {
+  if (choice !== 'random') return choice
+  return TRANSITIONS[Math.floor(random() * TRANSITIONS.length)].id
+}
+
+interface TransitionUniforms {
+  uNextMap: { value: THREE.Texture | null }
+  uProgress: { value: number }
+  uSeed: { value: number }
+}
+
+const SHARED_GLSL = `
+uniform sampler2D uNextMap;
+uniform float uProgress;
+uniform float uSeed;
+
+vec4 getFromColor(vec2 uv) { return texture2D(map, uv); }
+vec4 getToColor(vec2 uv) { return texture2D(uNextMap, uv); }
+
+float pfpHash(vec2 p) {
+  return fract(sin(dot(p + uSeed, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+float pfpNoise(vec2 p) {
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+  vec2 u = f * f * (3.0 - 2.0 * f);
+  return mix(
+    mix(pfpHash(i), pfpHash(i + vec2(1.0, 0.0)), u.x),
+    mix(pfpHash(i + vec2(0.0, 1.0)), pfpHash(i + vec2(1.0, 1.0)), u.x),
+    u.y
+  );
+}
+`
+
+// The card's physical material, with the texture lookup replaced by a transition.
+// The blended color also drives the emissive glow, like the emissive map did.
+export function createTransitionMaterial(id: TransitionId): THREE.MeshPhysicalMaterial {
+  const transition = TRANSITIONS.find(candidate => candidate.id === id)!
+  const uniforms: TransitionUniforms = {
+    uNextMap: { value: null },
+    uProgress: { value: 0 },
+    uSeed: { value: 0 },
+  }
+
+  const material = new THREE.MeshPhysicalMaterial({
+    side: THREE.DoubleSide,
+    emissive: 'white',
+    emissiveIntensity: 0.5,
+  })
+  material.userData.transitionUniforms = uniforms
+  material.customProgramCacheKey = () => `pfp-transition-${id}`
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms)
+    shader.fragmentShader = shader.fragmentShader
+      .replace('void main() {', `
+#ifdef USE_MAP
+${SHARED_GLSL}
+vec4 transition(vec2 uv) {
+${transition.glsl}
+}
+#endif
+void main() {`)
+      .replace('#include <map_fragment>', `
+#ifdef USE_MAP
+  vec4 transitionColor = transition(vMapUv);
+  diffuseColor *= transitionColor;
+#endif`)
+      .replace('#include <emissivemap_fragment>', `
+#ifdef USE_MAP
+  totalEmissiveRadiance *= transitionColor.rgb;
+#endif`)
+  }
+
+  return material
+}
+
+// Point a transition material at the textures it blends. With no `to` texture
+// it simply shows `from`.
+export function setTransitionState(
+  material: THREE.MeshPhysicalMaterial,
+  from: THREE.Texture,
+  to: THREE.Texture | null,
+  progress: number,
+  seed?: number
+) {
+  const uniforms = material.userData.transitionUniforms as TransitionUniforms
+  // Going from no texture to a texture needs the USE_MAP variant of the shader
+  if (!material.map) material.needsUpdate = true
+  material.map = from
+  uniforms.uNextMap.value = to ?? from
+  uniforms.uProgress.value = to ? progress : 0
+  if (seed !== undefined) uniforms.uSeed.value = seed
+}
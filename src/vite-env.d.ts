@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// Trait manifest generated by scripts/traitManifest.ts
+declare module 'virtual:trait-manifest' {
+  const manifest: import('./traitManifest').TraitManifest
+  export default manifest
+}
@@ -0,0 +1,105 @@
+// Minimal ZIP writer (stored, uncompressed entries). PNGs are already compressed,
+// so deflating them again would only cost time.
+
+export interface ZipEntry {
+  name: string
+  data: Blob | Uint8Array | string
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date/time fields used by ZIP headers
+function dosDateTime(date: Date): { time: number, date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+async function toBytes(data: ZipEntry['data']): Promise<Uint8Array> {
+  if (typeof data === 'string') return new TextEncoder().encode(data)
+  if (data instanceof Uint8Array) return data
+  return new Uint8Array(await data.arrayBuffer())
+}
+
+export async function createZip(entries: ZipEntry[], modified = new Date()): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(modified)
+  const parts: BlobPart[] = []
+  const centralDirectory: BlobPart[] = []
+  let offset = 0
+  let centralSize = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const data = await toBytes(entry.data)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true) // Local file header signature
+    local.setUint16(4, 20, true) // Version needed to extract
+    local.setUint16(6, 0x0800, true) // Flags: UTF-8 names
+    local.setUint16(8, 0, true) // Method: stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true) // Compressed size
+    local.setUint32(22, data.length, true) // Uncompressed size
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true) // Extra field length
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true) // Central directory header signature
+    central.setUint16(4, 20, true) // Version made by
+    central.setUint16(6, 20, true) // Version needed to extract
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint16(30, 0, true) // Extra field length
+    central.setUint16(32, 0, true) // Comment length
+    central.setUint16(34, 0, true) // Disk number
+    central.setUint16(36, 0, true) // Internal attributes
+    central.setUint32(38, 0, true) // External attributes
+    central.setUint32(42, offset, true) // Offset of local header
+
+    parts.push(local.buffer, name, data)
+    centralDirectory.push(central.buffer, name)
+    offset += 30 + name.length + data.length
+    centralSize += 46 + name.length
+  }
+
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true) // End of central directory signature
+  end.setUint16(4, 0, true)
+  end.setUint16(6, 0, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+  end.setUint16(20, 0, true)
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' })
+}